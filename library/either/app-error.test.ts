@@ -0,0 +1,160 @@
+import { AppError, errorHandler } from '@oneday/error-handling'
+import { HTTPStatus } from '@oneday/http-status'
+import {
+  assertEquals,
+  assertInstanceOf,
+  assertObjectMatch,
+  assertStrictEquals,
+  assertThrows,
+} from '@std/assert'
+import { fromAppError, getOrThrow, toAppError } from './app-error.ts'
+import { type Either, isLeft, Left, Right, tryCatch } from './mod.ts'
+
+const findUser = (id: number): Either<string, { id: number }> =>
+  id === 1 ? Right({ id }) : Left('User not found')
+
+Deno.test({
+  name: 'tryCatch: thrown exception becomes Left',
+  fn() {
+    // Arrange
+    const parse = (value: string) =>
+      tryCatch(
+        (): unknown => JSON.parse(value),
+        (error): string =>
+          error instanceof SyntaxError ? 'Invalid JSON' : 'Unknown',
+      )
+
+    // Act & Assert
+    assertEquals(parse('[1]'), Right([1]))
+    assertEquals(parse('['), Left('Invalid JSON'))
+  },
+})
+
+Deno.test({
+  name: 'fromAppError: convert unknown to Left of AppError',
+  fn() {
+    // Arrange
+    const appError = new AppError(
+      'ResourceNotFound',
+      'User not found',
+      true,
+      HTTPStatus.NotFound,
+    )
+
+    // Act
+    const fromApp = fromAppError(appError)
+    const fromObject = fromAppError({
+      code: 'Conflict',
+      description: 'Email already used',
+      status: 409,
+      operational: true,
+    })
+
+    // Assert
+    assertEquals(isLeft(fromApp), true)
+    assertStrictEquals(fromApp.value, appError)
+    assertInstanceOf(fromObject.value, AppError)
+    assertObjectMatch(fromObject.value, {
+      name: 'Conflict',
+      message: 'Email already used',
+      isOperational: true,
+      HttpStatus: HTTPStatus.Conflict,
+    })
+  },
+})
+
+Deno.test({
+  name: 'toAppError: convert only the Left value',
+  fn() {
+    // Act
+    const right = toAppError(findUser(1))
+    const left = toAppError(findUser(2))
+
+    // Assert
+    assertEquals(right, Right({ id: 1 }))
+    assertInstanceOf(left.value, AppError)
+    assertObjectMatch(left.value, {
+      name: 'unknown-error',
+      message: 'User not found',
+      isOperational: false,
+      HttpStatus: HTTPStatus.InternalServerError,
+    })
+  },
+})
+
+Deno.test({
+  name: 'getOrThrow: return Right value',
+  fn() {
+    assertEquals(getOrThrow(findUser(1)), { id: 1 })
+  },
+})
+
+Deno.test({
+  name: 'getOrThrow: throw AppError with http status',
+  fn() {
+    // Act
+    const error = assertThrows(
+      () => getOrThrow(findUser(2), HTTPStatus.NotFound),
+      AppError,
+    )
+
+    // Assert
+    assertObjectMatch(error, {
+      message: 'User not found',
+      isOperational: true,
+      HttpStatus: HTTPStatus.NotFound,
+    })
+  },
+})
+
+Deno.test({
+  name: 'getOrThrow: keep the AppError of the Left',
+  fn() {
+    // Arrange
+    const appError = new AppError(
+      'Conflict',
+      'Email already used',
+      true,
+      HTTPStatus.Conflict,
+    )
+
+    // Act
+    const error = assertThrows(
+      () => getOrThrow(Left(appError), HTTPStatus.NotFound),
+      AppError,
+    )
+
+    // Assert
+    assertStrictEquals(error, appError)
+    assertEquals(error.HttpStatus, HTTPStatus.Conflict)
+  },
+})
+
+Deno.test({
+  name: 'getOrThrow: never modifies the AppError of a converter',
+  fn() {
+    // Arrange
+    const shared = new AppError('Timeout', 'Request timed out')
+    const convert = () => shared
+
+    errorHandler.addConverter((error) => error === 'Timed out', convert)
+
+    // Act
+    const error = assertThrows(
+      () => getOrThrow(Left('Timed out'), HTTPStatus.GatewayTimeout),
+      AppError,
+    )
+
+    errorHandler.removeConverter(convert)
+
+    // Assert
+    assertObjectMatch(error, {
+      name: 'Timeout',
+      HttpStatus: HTTPStatus.GatewayTimeout,
+      isOperational: true,
+    })
+    assertEquals(error.stack, shared.stack)
+    assertEquals(shared.HttpStatus, HTTPStatus.InternalServerError)
+    assertEquals(shared.isOperational, false)
+  },
+})
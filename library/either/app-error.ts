@@ -0,0 +1,95 @@
+import { AppError, errorHandler } from '@oneday/error-handling'
+import type { HTTPStatus } from '@oneday/http-status'
+import { type Either, isLeft, Left, mapLeft } from './either.ts'
+
+const convertUnknownToAppError = (error: unknown): AppError =>
+  errorHandler.convertUnknownToAppError(error as Readonly<unknown>)
+
+/**
+ * Convert an unknown error into a Left of AppError with `errorHandler.convertUnknownToAppError`
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { AppError } from 'jsr:@oneday/error-handling';
+ * import { HTTPStatus } from 'jsr:@oneday/http-status';
+ * import { fromAppError } from 'jsr:@oneday/either/app-error';
+ *
+ * const notFound = new AppError('ResourceNotFound', 'User not found', true, HTTPStatus.NotFound);
+ *
+ * assertEquals(fromAppError(notFound).value, notFound);
+ * assertEquals(fromAppError({ code: 'Conflict', status: 409 }).value.HttpStatus, HTTPStatus.Conflict);
+ * ```
+ */
+export function fromAppError<B = never>(error: unknown): Either<AppError, B> {
+  return Left(convertUnknownToAppError(error))
+}
+
+/**
+ * Convert the Left value into an AppError with `errorHandler.convertUnknownToAppError`, a Right is returned untouched
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals, assertInstanceOf } from 'jsr:@std/assert';
+ * import { AppError } from 'jsr:@oneday/error-handling';
+ * import { Either, Left, Right } from 'jsr:@oneday/either';
+ * import { toAppError } from 'jsr:@oneday/either/app-error';
+ *
+ * const parseValue = (value: unknown): Either<string, number> =>
+ *   typeof value === 'number' ? Right(value) : Left('Invalid value');
+ *
+ * assertEquals(toAppError(parseValue(2)), Right(2));
+ * assertInstanceOf(toAppError(parseValue('Hello')).value, AppError);
+ * ```
+ */
+export function toAppError<A, B>(either: Either<A, B>): Either<AppError, B> {
+  return mapLeft(convertUnknownToAppError)(either)
+}
+
+/**
+ * Extract the Right value or throw the Left value as an AppError at the HTTP edge.
+ * When the Left value is not already an AppError, `httpStatus` marks it as an operational error with this status.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals, assertThrows } from 'jsr:@std/assert';
+ * import { AppError } from 'jsr:@oneday/error-handling';
+ * import { HTTPStatus } from 'jsr:@oneday/http-status';
+ * import { Either, Left, Right } from 'jsr:@oneday/either';
+ * import { getOrThrow } from 'jsr:@oneday/either/app-error';
+ *
+ * const findUser = (id: number): Either<string, { id: number }> =>
+ *   id === 1 ? Right({ id }) : Left('User not found');
+ *
+ * assertEquals(getOrThrow(findUser(1), HTTPStatus.NotFound), { id: 1 });
+ *
+ * const error = assertThrows(() => getOrThrow(findUser(2), HTTPStatus.NotFound), AppError);
+ *
+ * assertEquals(error.HttpStatus, HTTPStatus.NotFound);
+ * assertEquals(error.message, 'User not found');
+ * ```
+ */
+export function getOrThrow<A, B>(
+  either: Either<A, B>,
+  httpStatus?: HTTPStatus,
+): B {
+  if (!isLeft(either)) {
+    return either.value
+  }
+
+  const appError = convertUnknownToAppError(either.value)
+
+  if (httpStatus === undefined || either.value instanceof AppError) {
+    throw appError
+  }
+
+  // A new AppError, a converter may return a shared instance
+  throw Object.assign(new AppError(appError.name, appError.message), appError, {
+    HttpStatus: httpStatus,
+    isOperational: true,
+    stack: appError.stack,
+  })
+}
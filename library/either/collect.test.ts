@@ -0,0 +1,159 @@
+import { assertEquals } from '@std/assert'
+import { assertSpyCalls, spy } from '@std/testing/mock'
+import { assertType, type IsExact } from '@std/testing/types'
+import {
+  type Either,
+  isLeft,
+  isRight,
+  Left,
+  type NonEmptyArray,
+  Right,
+  sequence,
+  sequenceRecord,
+  traverse,
+  traverseRecord,
+  validate,
+  validateRecord,
+} from './mod.ts'
+
+const parseNumber = (value: unknown): Either<string, number> =>
+  typeof value === 'number' ? Right(value) : Left(`${value} is not a number`)
+
+const parseString = (value: unknown): Either<Error, string> =>
+  typeof value === 'string'
+    ? Right(value)
+    : Left(new Error(`${value} is not a string`))
+
+Deno.test({
+  name: 'sequence: collect a tuple of Right',
+  fn() {
+    // Act
+    const result = sequence([parseNumber(1), parseString('two')])
+
+    // Assert
+    assertEquals(isRight(result), true)
+    assertEquals(result.value, [1, 'two'])
+    assertType<
+      IsExact<typeof result, Either<string | Error, [number, string]>>
+    >(
+      true,
+    )
+  },
+})
+
+Deno.test({
+  name: 'sequence: stop on the first Left',
+  fn() {
+    assertEquals(
+      sequence([parseNumber('a'), parseNumber('b')]),
+      Left('a is not a number'),
+    )
+    assertEquals(sequence([]).value, [])
+  },
+})
+
+Deno.test({
+  name: 'sequenceRecord: collect a record',
+  fn() {
+    // Act
+    const result = sequenceRecord({
+      id: parseNumber(1),
+      name: parseString('john'),
+    })
+
+    // Assert
+    assertEquals(result, Right({ id: 1, name: 'john' }))
+    assertEquals(
+      sequenceRecord({ id: parseNumber('a'), name: parseString(2) }),
+      Left('a is not a number'),
+    )
+    assertType<
+      IsExact<
+        typeof result,
+        Either<string | Error, { id: number; name: string }>
+      >
+    >(true)
+  },
+})
+
+Deno.test({
+  name: 'traverse: fail fast',
+  fn() {
+    // Arrange
+    const parse = spy(parseNumber)
+
+    // Act
+    const result = traverse(parse)([1, 'a', 'b'])
+
+    // Assert
+    assertEquals(result, Left('a is not a number'))
+    assertSpyCalls(parse, 2)
+    assertEquals(traverse(parseNumber)([1, 2]), Right([1, 2]))
+  },
+})
+
+Deno.test({
+  name: 'traverseRecord: fail fast with key',
+  fn() {
+    const required = (value: string, key: string): Either<string, string> =>
+      value !== '' ? Right(value) : Left(`${key} is required`)
+
+    assertEquals(
+      traverseRecord(required)({ firstname: 'john', lastname: 'doe' }),
+      Right({ firstname: 'john', lastname: 'doe' }),
+    )
+    assertEquals(
+      traverseRecord(required)({ firstname: 'john', lastname: '' }),
+      Left('lastname is required'),
+    )
+  },
+})
+
+Deno.test({
+  name: 'validate: accumulate every Left',
+  fn() {
+    // Act
+    const result = validate([parseNumber('a'), parseString(2), parseNumber(3)])
+
+    // Assert
+    assertEquals(isLeft(result), true)
+    assertEquals(result.value, [
+      'a is not a number',
+      new Error('2 is not a string'),
+    ])
+    assertEquals(validate([parseNumber(1), parseString('two')]).value, [
+      1,
+      'two',
+    ])
+    assertType<
+      IsExact<
+        typeof result,
+        Either<NonEmptyArray<string | Error>, [number, string, number]>
+      >
+    >(true)
+  },
+})
+
+Deno.test({
+  name: 'validateRecord: accumulate every field error',
+  fn() {
+    // Arrange
+    const check = spy(parseNumber)
+
+    // Act
+    const result = validateRecord({
+      age: check('a'),
+      size: check('b'),
+      weight: check(70),
+    })
+
+    // Assert
+    assertSpyCalls(check, 3)
+    assertEquals(isLeft(result), true)
+    assertEquals(result.value, ['a is not a number', 'b is not a number'])
+    assertEquals(
+      validateRecord({ age: parseNumber(30), name: parseString('john') }),
+      Right({ age: 30, name: 'john' }),
+    )
+  },
+})
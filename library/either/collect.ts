@@ -0,0 +1,226 @@
+import {
+  type Either,
+  isLeft,
+  Left,
+  type LeftOf,
+  Right,
+  type RightOf,
+} from './either.ts'
+
+/**
+ * Array with at least one element
+ */
+export type NonEmptyArray<T> = [T, ...Array<T>]
+
+type RightsOf<T> = { -readonly [K in keyof T]: RightOf<T[K]> }
+
+/**
+ * Collect an array (or a tuple) of Either into an Either of array, stop on the first Left
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { isRight, Left, Right, sequence } from "jsr:@oneday/either";
+ *
+ * const values = sequence([Right(1), Right('two')]);
+ *
+ * assertEquals(isRight(values), true);
+ * assertEquals(values.value, [1, 'two']);
+ * assertEquals(sequence([Right(1), Left('first'), Left('second')]), Left('first'));
+ * ```
+ */
+export function sequence<T extends ReadonlyArray<Either<unknown, unknown>>>(
+  eithers: readonly [...T],
+): Either<LeftOf<T[number]>, RightsOf<T>> {
+  const values: Array<unknown> = []
+
+  for (const either of eithers) {
+    if (isLeft(either)) {
+      return either as Left<LeftOf<T[number]>>
+    }
+
+    values.push(either.value)
+  }
+
+  return Right(values as RightsOf<T>)
+}
+
+/**
+ * Collect a record of Either into an Either of record, stop on the first Left
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Left, Right, sequenceRecord } from "jsr:@oneday/either";
+ *
+ * assertEquals(sequenceRecord({ id: Right(1), name: Right('john') }), Right({ id: 1, name: 'john' }));
+ * assertEquals(sequenceRecord({ id: Right(1), name: Left('Name is required') }), Left('Name is required'));
+ * ```
+ */
+export function sequenceRecord<
+  R extends Readonly<Record<string, Either<unknown, unknown>>>,
+>(record: R): Either<LeftOf<R[keyof R]>, RightsOf<R>> {
+  const values: Record<string, unknown> = {}
+
+  for (const [key, either] of Object.entries(record)) {
+    if (isLeft(either)) {
+      return either as Left<LeftOf<R[keyof R]>>
+    }
+
+    values[key] = either.value
+  }
+
+  return Right(values as RightsOf<R>)
+}
+
+/**
+ * Map each element of an array to an Either and collect the results, stop on the first Left
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Either, Left, Right, traverse } from "jsr:@oneday/either";
+ *
+ * const parseInteger = (value: string): Either<string, number> =>
+ *   Number.isInteger(Number(value)) ? Right(Number(value)) : Left(`${value} is not an integer`);
+ *
+ * assertEquals(traverse(parseInteger)(['1', '2']), Right([1, 2]));
+ * assertEquals(traverse(parseInteger)(['1', 'a', 'b']), Left('a is not an integer'));
+ * ```
+ */
+export function traverse<T, A, B>(
+  f: (value: T, index: number) => Either<A, B>,
+): (values: ReadonlyArray<T>) => Either<A, Array<B>> {
+  return (values) => {
+    const results: Array<B> = []
+
+    for (const [index, value] of values.entries()) {
+      const either = f(value, index)
+
+      if (isLeft(either)) {
+        return either
+      }
+
+      results.push(either.value)
+    }
+
+    return Right(results)
+  }
+}
+
+/**
+ * Map each value of a record to an Either and collect the results, stop on the first Left
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Either, Left, Right, traverseRecord } from "jsr:@oneday/either";
+ *
+ * const required = (value: string, key: string): Either<string, string> =>
+ *   value !== '' ? Right(value) : Left(`${key} is required`);
+ *
+ * assertEquals(traverseRecord(required)({ firstname: 'john', lastname: 'doe' }), Right({ firstname: 'john', lastname: 'doe' }));
+ * assertEquals(traverseRecord(required)({ firstname: '', lastname: '' }), Left('firstname is required'));
+ * ```
+ */
+export function traverseRecord<T, A, B>(
+  f: (value: T, key: string) => Either<A, B>,
+): <K extends string>(
+  record: Readonly<Record<K, T>>,
+) => Either<A, Record<K, B>> {
+  return <K extends string>(record: Readonly<Record<K, T>>) => {
+    const results: Record<string, B> = {}
+
+    for (const [key, value] of Object.entries<T>(record)) {
+      const either = f(value, key)
+
+      if (isLeft(either)) {
+        return either
+      }
+
+      results[key] = either.value
+    }
+
+    return Right(results as Record<K, B>)
+  }
+}
+
+/**
+ * Collect an array (or a tuple) of Either into an Either of array, every Left is accumulated in a non-empty list
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { isLeft, Left, Right, validate } from "jsr:@oneday/either";
+ *
+ * const errors = validate([Right(1), Left('first'), Left('second')]);
+ *
+ * assertEquals(isLeft(errors), true);
+ * assertEquals(errors.value, ['first', 'second']);
+ * ```
+ */
+export function validate<T extends ReadonlyArray<Either<unknown, unknown>>>(
+  eithers: readonly [...T],
+): Either<NonEmptyArray<LeftOf<T[number]>>, RightsOf<T>> {
+  const errors: Array<unknown> = []
+  const values: Array<unknown> = []
+
+  for (const either of eithers) {
+    if (isLeft(either)) {
+      errors.push(either.value)
+    } else {
+      values.push(either.value)
+    }
+  }
+
+  return errors.length > 0
+    ? Left(errors as NonEmptyArray<LeftOf<T[number]>>)
+    : Right(values as RightsOf<T>)
+}
+
+/**
+ * Collect a record of Either into an Either of record, every Left is accumulated in a non-empty list
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Either, isLeft, Left, Right, validateRecord } from "jsr:@oneday/either";
+ *
+ * const required = (key: string, value: unknown): Either<string, string> =>
+ *   typeof value === 'string' && value !== '' ? Right(value) : Left(`${key} is required`);
+ *
+ * const body = { firstname: '', lastname: undefined };
+ *
+ * const errors = validateRecord({
+ *   firstname: required('firstname', body.firstname),
+ *   lastname: required('lastname', body.lastname),
+ * });
+ *
+ * assertEquals(isLeft(errors), true);
+ * assertEquals(errors.value, ['firstname is required', 'lastname is required']);
+ * ```
+ */
+export function validateRecord<
+  R extends Readonly<Record<string, Either<unknown, unknown>>>,
+>(record: R): Either<NonEmptyArray<LeftOf<R[keyof R]>>, RightsOf<R>> {
+  const errors: Array<unknown> = []
+  const values: Record<string, unknown> = {}
+
+  for (const [key, either] of Object.entries(record)) {
+    if (isLeft(either)) {
+      errors.push(either.value)
+    } else {
+      values[key] = either.value
+    }
+  }
+
+  return errors.length > 0
+    ? Left(errors as NonEmptyArray<LeftOf<R[keyof R]>>)
+    : Right(values as RightsOf<R>)
+}
@@ -0,0 +1,112 @@
+import { HTTPStatus } from '@oneday/http-status'
+import { assertEquals, assertThrows } from '@std/assert'
+import { assertType, type IsExact } from '@std/testing/types'
+import {
+  defineErrors,
+  type Either,
+  type ErrorOf,
+  fold,
+  Left,
+  mapLeft,
+  matchError,
+  pipe,
+  Right,
+  toHttpStatus,
+} from './mod.ts'
+
+const UserError = defineErrors({
+  NotFound: (id: string) => ({ id }),
+  Conflict: (email: string) => ({ email }),
+  Forbidden: () => ({}),
+})
+
+type UserError = ErrorOf<typeof UserError>
+
+const userErrorStatus = toHttpStatus({
+  NotFound: HTTPStatus.NotFound,
+  Conflict: HTTPStatus.Conflict,
+  Forbidden: HTTPStatus.Forbidden,
+})
+
+const findUser = (id: string): Either<UserError, { id: string }> => {
+  if (id === 'admin') {
+    return Left(UserError.Forbidden())
+  }
+
+  return id === '1' ? Right({ id }) : Left(UserError.NotFound(id))
+}
+
+Deno.test({
+  name: 'defineErrors: tagged constructors',
+  fn() {
+    assertEquals(UserError.NotFound('1'), { tag: 'NotFound', id: '1' })
+    assertEquals(UserError.Conflict('john@doe.com'), {
+      tag: 'Conflict',
+      email: 'john@doe.com',
+    })
+    assertEquals(UserError.Forbidden(), { tag: 'Forbidden' })
+    assertType<
+      IsExact<UserError['tag'], 'NotFound' | 'Conflict' | 'Forbidden'>
+    >(true)
+  },
+})
+
+Deno.test({
+  name: 'matchError: exhaustive match on the Left side',
+  fn() {
+    // Arrange
+    const toMessage = (id: string) =>
+      pipe(
+        findUser(id),
+        mapLeft((error) =>
+          matchError(error, {
+            NotFound: ({ id }) => `User ${id} not found`,
+            Conflict: ({ email }) => `Email ${email} already used`,
+            Forbidden: () => 'Forbidden',
+          })
+        ),
+      )
+
+    // Act & Assert
+    assertEquals(toMessage('1'), Right({ id: '1' }))
+    assertEquals(toMessage('2'), Left('User 2 not found'))
+    assertEquals(toMessage('admin'), Left('Forbidden'))
+  },
+})
+
+Deno.test({
+  name: 'toHttpStatus: translate domain failures to status codes',
+  fn() {
+    // Arrange
+    const toResponse = fold(
+      (error: UserError) => ({ status: userErrorStatus(error), body: error }),
+      (user: { id: string }) => ({ status: HTTPStatus.OK, body: user }),
+    )
+
+    // Act & Assert
+    assertEquals(toResponse(findUser('1')).status, HTTPStatus.OK)
+    assertEquals(toResponse(findUser('2')).status, HTTPStatus.NotFound)
+    assertEquals(toResponse(findUser('admin')).status, HTTPStatus.Forbidden)
+  },
+})
+
+Deno.test({
+  name: 'matchError and toHttpStatus: unknown tag of a decoded error',
+  fn() {
+    // Arrange
+    const decoded = JSON.parse('{"tag":"Deleted","id":"2"}') as UserError
+
+    // Act & Assert
+    assertThrows(
+      () =>
+        matchError(decoded, {
+          NotFound: () => 'not found',
+          Conflict: () => 'conflict',
+          Forbidden: () => 'forbidden',
+        }),
+      TypeError,
+      "No handler for the error tag 'Deleted'",
+    )
+    assertEquals(userErrorStatus(decoded), HTTPStatus.InternalServerError)
+  },
+})
@@ -0,0 +1,153 @@
+import { HTTPStatus } from '@oneday/http-status'
+
+/**
+ * Domain error identified by its tag
+ */
+export type DomainError<T extends string = string> = {
+  readonly tag: T
+}
+
+type Definitions = Record<string, (...args: never[]) => object>
+
+/**
+ * Constructors of a domain error family, each one adds its tag to the payload
+ */
+export type ErrorFamily<D extends Definitions> = {
+  [K in keyof D & string]: (
+    ...args: Parameters<D[K]>
+  ) => Readonly<ReturnType<D[K]> & DomainError<K>>
+}
+
+/**
+ * Union of the errors of a domain error family
+ *
+ * # Example
+ *
+ * ```ts
+ * import { defineErrors, type ErrorOf } from "jsr:@oneday/either";
+ *
+ * const UserError = defineErrors({
+ *   NotFound: (id: string) => ({ id }),
+ *   Conflict: (email: string) => ({ email }),
+ * });
+ *
+ * // { tag: 'NotFound', id: string } | { tag: 'Conflict', email: string }
+ * type UserError = ErrorOf<typeof UserError>;
+ * ```
+ */
+export type ErrorOf<F> = {
+  [K in keyof F]: F[K] extends (...args: never[]) => infer E ? E : never
+}[keyof F]
+
+/**
+ * Define a family of tagged domain errors, the key of each definition is the tag of the error
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { defineErrors, Either, type ErrorOf, Left, Right } from "jsr:@oneday/either";
+ *
+ * const UserError = defineErrors({
+ *   NotFound: (id: string) => ({ id }),
+ *   Conflict: (email: string) => ({ email }),
+ * });
+ *
+ * type UserError = ErrorOf<typeof UserError>;
+ *
+ * const findUser = (id: string): Either<UserError, { id: string }> =>
+ *   id === '1' ? Right({ id }) : Left(UserError.NotFound(id));
+ *
+ * assertEquals(findUser('2'), Left({ tag: 'NotFound', id: '2' }));
+ * ```
+ */
+export function defineErrors<D extends Definitions>(
+  definitions: D,
+): ErrorFamily<D> {
+  const family: Record<string, (...args: never[]) => object> = {}
+
+  for (const [tag, create] of Object.entries(definitions)) {
+    family[tag] = (...args) => ({ ...create(...args), tag })
+  }
+
+  return family as unknown as ErrorFamily<D>
+}
+
+/**
+ * Exhaustive match on the tag of a domain error, a handler is required for every tag of the union.
+ * An unknown tag, e.g. of an error decoded from JSON, throws a TypeError naming the tag.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { defineErrors, Either, type ErrorOf, fold, Left, matchError, Right } from "jsr:@oneday/either";
+ *
+ * const UserError = defineErrors({
+ *   NotFound: (id: string) => ({ id }),
+ *   Conflict: (email: string) => ({ email }),
+ * });
+ *
+ * type UserError = ErrorOf<typeof UserError>;
+ *
+ * const toMessage = fold(
+ *   (error: UserError) =>
+ *     matchError(error, {
+ *       NotFound: ({ id }) => `User ${id} not found`,
+ *       Conflict: ({ email }) => `Email ${email} already used`,
+ *     }),
+ *   (user: { id: string }) => `User ${user.id}`,
+ * );
+ *
+ * assertEquals(toMessage(Left(UserError.NotFound('2'))), 'User 2 not found');
+ * assertEquals(toMessage(Left(UserError.Conflict('john@doe.com'))), 'Email john@doe.com already used');
+ * assertEquals(toMessage(Right({ id: '1' })), 'User 1');
+ * ```
+ */
+export function matchError<E extends DomainError, R>(
+  error: E,
+  handlers: { [K in E['tag']]: (error: Extract<E, DomainError<K>>) => R },
+): R {
+  if (!Object.hasOwn(handlers, error.tag)) {
+    throw new TypeError(`No handler for the error tag '${error.tag}'`)
+  }
+
+  const handler = handlers[error.tag as E['tag']] as (error: E) => R
+
+  return handler(error)
+}
+
+/**
+ * Mapping table from each error tag to an HTTPStatus, the edge translates domain failures to status codes without a switch.
+ * Applying the table to an error union with a missing tag does not compile, an unknown tag at runtime is an InternalServerError.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { HTTPStatus } from 'jsr:@oneday/http-status';
+ * import { defineErrors, type ErrorOf, toHttpStatus } from "jsr:@oneday/either";
+ *
+ * const UserError = defineErrors({
+ *   NotFound: (id: string) => ({ id }),
+ *   Conflict: (email: string) => ({ email }),
+ * });
+ *
+ * type UserError = ErrorOf<typeof UserError>;
+ *
+ * const userErrorStatus: (error: UserError) => HTTPStatus = toHttpStatus({
+ *   NotFound: HTTPStatus.NotFound,
+ *   Conflict: HTTPStatus.Conflict,
+ * });
+ *
+ * assertEquals(userErrorStatus(UserError.Conflict('john@doe.com')), HTTPStatus.Conflict);
+ * ```
+ */
+export function toHttpStatus<T extends string>(
+  table: Readonly<Record<T, HTTPStatus>>,
+): (error: DomainError<T>) => HTTPStatus {
+  return (error) =>
+    Object.hasOwn(table, error.tag)
+      ? table[error.tag]
+      : HTTPStatus.InternalServerError
+}
@@ -0,0 +1,143 @@
+import { assertEquals } from '@std/assert'
+import { assertSpyCall, assertSpyCalls, spy } from '@std/testing/mock'
+import {
+  bimap,
+  chain,
+  type Either,
+  flatMap,
+  fold,
+  getOrElse,
+  isLeft,
+  isRight,
+  Left,
+  map,
+  mapLeft,
+  match,
+  orElse,
+  Right,
+  swap,
+  tap,
+} from './mod.ts'
+
+const parseValue = (value: unknown): Either<string, number> =>
+  typeof value === 'number' ? Right(value) : Left('Invalid value')
+
+Deno.test({
+  name: 'Either: Left and Right keep the tag shape',
+  fn() {
+    assertEquals(Left('error'), { tag: 'left', value: 'error' })
+    assertEquals(Right(2), { tag: 'right', value: 2 })
+    assertEquals(isLeft(parseValue('Hello')), true)
+    assertEquals(isRight(parseValue(2)), true)
+  },
+})
+
+Deno.test({
+  name: 'Either: map and mapLeft only touch their own side',
+  fn() {
+    const double = map((value: number) => value * 2)
+    const toError = mapLeft((error: string) => new Error(error))
+
+    assertEquals(double(parseValue(2)), Right(4))
+    assertEquals(double(parseValue('Hello')), Left('Invalid value'))
+    assertEquals(toError(parseValue(2)), Right(2))
+    assertEquals(toError(parseValue('Hello')), Left(new Error('Invalid value')))
+  },
+})
+
+Deno.test({
+  name: 'Either: bimap',
+  fn() {
+    const format = bimap(
+      (error: string) => error.length,
+      (value: number) => `${value}`,
+    )
+
+    assertEquals(format(parseValue(2)), Right('2'))
+    assertEquals(format(parseValue('Hello')), Left(13))
+  },
+})
+
+Deno.test({
+  name: 'Either: flatMap and chain short-circuit on Left',
+  fn() {
+    // Arrange
+    const isPositive = spy((value: number): Either<Error, number> =>
+      value > 0 ? Right(value) : Left(new Error('Value is not positive'))
+    )
+
+    // Act
+    const positive = flatMap(isPositive)(parseValue(2))
+    const negative = chain(isPositive)(parseValue(-2))
+    const invalid = flatMap(isPositive)(parseValue('Hello'))
+
+    // Assert
+    assertEquals(positive, Right(2))
+    assertEquals(negative, Left(new Error('Value is not positive')))
+    assertEquals(invalid, Left('Invalid value'))
+    assertSpyCalls(isPositive, 2)
+  },
+})
+
+Deno.test({
+  name: 'Either: fold and match',
+  fn() {
+    const toStatus = fold(
+      (_error: string) => 400,
+      (_value: number) => 200,
+    )
+    const toMessage = match(
+      (error: string) => error,
+      (value: number) => `${value}`,
+    )
+
+    assertEquals(toStatus(parseValue(2)), 200)
+    assertEquals(toStatus(parseValue('Hello')), 400)
+    assertEquals(toMessage(parseValue(2)), '2')
+    assertEquals(toMessage(parseValue('Hello')), 'Invalid value')
+  },
+})
+
+Deno.test({
+  name: 'Either: getOrElse and orElse',
+  fn() {
+    const orZero = getOrElse((_error: string) => 0)
+    const recover = orElse((error: string) =>
+      error === 'Invalid value' ? Right(0) : Left(error)
+    )
+
+    assertEquals(orZero(parseValue(2)), 2)
+    assertEquals(orZero(parseValue('Hello')), 0)
+    assertEquals(recover(parseValue(2)), Right(2))
+    assertEquals(recover(parseValue('Hello')), Right(0))
+    assertEquals(recover(Left('Other')), Left('Other'))
+  },
+})
+
+Deno.test({
+  name: 'Either: swap',
+  fn() {
+    assertEquals(swap(parseValue(2)), Left(2))
+    assertEquals(swap(parseValue('Hello')), Right('Invalid value'))
+  },
+})
+
+Deno.test({
+  name: 'Either: tap runs side effect on Right only',
+  fn() {
+    // Arrange
+    const func = spy()
+    const right = parseValue(2)
+    const left = parseValue('Hello')
+
+    // Act
+    const tappedRight = tap(func)(right)
+    const tappedLeft = tap(func)(left)
+
+    // Assert
+    assertEquals(tappedRight, right)
+    assertEquals(tappedLeft, left)
+    assertSpyCalls(func, 1)
+    assertSpyCall(func, 0, { args: [2] })
+  },
+})
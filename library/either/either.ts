@@ -0,0 +1,352 @@
+export interface Left<A> {
+  readonly value: A
+  readonly tag: 'left'
+}
+
+export interface Right<B> {
+  readonly value: B
+  readonly tag: 'right'
+}
+
+/**
+ * Error Handling with the Either type
+ *
+ *  # Example
+ *
+ * ```ts ignore
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Either } from "jsr:@oneday/either";
+ *
+ * const parseValue = (value: unknown): Either<string, number> =>
+ *    typeof value === 'number' ? Right(value) : Left('Invalid value')
+ *
+ * const valueOrError = parseValue('Hello')
+ *
+ * assertEquals(isLeft(valueOrError), true);
+ * assertEquals(valueOrError.value, 'Invalid value');
+ * ```
+ */
+export type Either<A, B> = Left<A> | Right<B>
+
+/**
+ * Extract the Left type of an Either
+ */
+export type LeftOf<T> = T extends Left<infer A> ? A : never
+
+/**
+ * Extract the Right type of an Either
+ */
+export type RightOf<T> = T extends Right<infer B> ? B : never
+
+/**
+ * Determine if value on Left
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Left, isLeft } from "jsr:@oneday/either";
+ *
+ * const leftValue = Left('value');
+ *
+ * assertEquals(isLeft(leftValue), true);
+ * ```
+ */
+export function isLeft<A, B>(val: Either<A, B>): val is Left<A> {
+  return val.tag === 'left'
+}
+
+/**
+ * Determine if value on Right
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Right, isRight } from "jsr:@oneday/either";
+ *
+ * const rightValue = Right('value');
+ *
+ * assertEquals(isRight(rightValue), true);
+ * ```
+ */
+export function isRight<A, B>(val: Either<A, B>): val is Right<B> {
+  return val.tag === 'right'
+}
+
+/**
+ *  # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Left } from "jsr:@oneday/either";
+ *
+ * const leftValue = Left('value');
+ *
+ * assertEquals(leftValue, { tag: 'left', value: 'value' });
+ * ```
+ */
+export function Left<A>(val: A): Left<A> {
+  return { tag: 'left', value: val }
+}
+
+/**
+ *  # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Right } from "jsr:@oneday/either";
+ *
+ * const rightValue = Right('value');
+ *
+ * assertEquals(rightValue, { tag: 'right', value: 'value' });
+ * ```
+ */
+export function Right<B>(val: B): Right<B> {
+  return { tag: 'right', value: val }
+}
+
+/**
+ * Apply a function to the Right value, a Left is returned untouched
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Left, map, Right } from "jsr:@oneday/either";
+ *
+ * const double = map((value: number) => value * 2);
+ *
+ * assertEquals(double(Right(2)), Right(4));
+ * assertEquals(double(Left('error')), Left('error'));
+ * ```
+ */
+export function map<B, C>(
+  f: (value: B) => C,
+): <A>(either: Either<A, B>) => Either<A, C> {
+  return (either) => isLeft(either) ? either : Right(f(either.value))
+}
+
+/**
+ * Apply a function to the Left value, a Right is returned untouched
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Left, mapLeft, Right } from "jsr:@oneday/either";
+ *
+ * const toUpperCase = mapLeft((error: string) => error.toUpperCase());
+ *
+ * assertEquals(toUpperCase(Left('error')), Left('ERROR'));
+ * assertEquals(toUpperCase(Right(2)), Right(2));
+ * ```
+ */
+export function mapLeft<A, C>(
+  f: (value: A) => C,
+): <B>(either: Either<A, B>) => Either<C, B> {
+  return (either) => isRight(either) ? either : Left(f(either.value))
+}
+
+/**
+ * Map both sides of an Either, `onLeft` for a Left and `onRight` for a Right
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { bimap, Left, Right } from "jsr:@oneday/either";
+ *
+ * const format = bimap(
+ *   (error: string) => new Error(error),
+ *   (value: number) => `${value}€`,
+ * );
+ *
+ * assertEquals(format(Right(2)), Right('2€'));
+ * assertEquals(format(Left('error')), Left(new Error('error')));
+ * ```
+ */
+export function bimap<A, B, C, D>(
+  onLeft: (value: A) => C,
+  onRight: (value: B) => D,
+): (either: Either<A, B>) => Either<C, D> {
+  return (either) =>
+    isLeft(either) ? Left(onLeft(either.value)) : Right(onRight(either.value))
+}
+
+/**
+ * Chain a function returning an Either on the Right value, the Left types are merged
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Either, flatMap, Left, Right } from "jsr:@oneday/either";
+ *
+ * const isPositive = (value: number): Either<string, number> =>
+ *   value > 0 ? Right(value) : Left('Value is not positive');
+ *
+ * assertEquals(flatMap(isPositive)(Right(2)), Right(2));
+ * assertEquals(flatMap(isPositive)(Right(-2)), Left('Value is not positive'));
+ * assertEquals(flatMap(isPositive)(Left('error')), Left('error'));
+ * ```
+ */
+export function flatMap<B, C, D>(
+  f: (value: B) => Either<C, D>,
+): <A>(either: Either<A, B>) => Either<A | C, D> {
+  return (either) => isLeft(either) ? either : f(either.value)
+}
+
+/**
+ * Alias of flatMap
+ */
+export const chain: typeof flatMap = flatMap
+
+/**
+ * Reduce an Either to a single value, `onLeft` for a Left and `onRight` for a Right
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { fold, Left, Right } from "jsr:@oneday/either";
+ *
+ * const toStatus = fold(
+ *   (_error: string) => 404,
+ *   (_value: number) => 200,
+ * );
+ *
+ * assertEquals(toStatus(Right(2)), 200);
+ * assertEquals(toStatus(Left('Not found')), 404);
+ * ```
+ */
+export function fold<A, B, C, D = C>(
+  onLeft: (value: A) => C,
+  onRight: (value: B) => D,
+): (either: Either<A, B>) => C | D {
+  return (either) =>
+    isLeft(either) ? onLeft(either.value) : onRight(either.value)
+}
+
+/**
+ * Alias of fold
+ */
+export const match: typeof fold = fold
+
+/**
+ * Extract the Right value or compute a fallback from the Left value
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { getOrElse, Left, Right } from "jsr:@oneday/either";
+ *
+ * const orZero = getOrElse((_error: string) => 0);
+ *
+ * assertEquals(orZero(Right(2)), 2);
+ * assertEquals(orZero(Left('error')), 0);
+ * ```
+ */
+export function getOrElse<A, C>(
+  onLeft: (value: A) => C,
+): <B>(either: Either<A, B>) => B | C {
+  return (either) => isLeft(either) ? onLeft(either.value) : either.value
+}
+
+/**
+ * Recover from a Left with a function returning a new Either, a Right is returned untouched
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Left, orElse, Right } from "jsr:@oneday/either";
+ *
+ * const fromCache = orElse((_error: string) => Right(0));
+ *
+ * assertEquals(fromCache(Left('Cache miss')), Right(0));
+ * assertEquals(fromCache(Right(2)), Right(2));
+ * ```
+ */
+export function orElse<A, C, D>(
+  f: (value: A) => Either<C, D>,
+): <B>(either: Either<A, B>) => Either<C, B | D> {
+  return (either) => isLeft(either) ? f(either.value) : either
+}
+
+/**
+ * Swap Left and Right
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Left, Right, swap } from "jsr:@oneday/either";
+ *
+ * assertEquals(swap(Right(2)), Left(2));
+ * assertEquals(swap(Left('error')), Right('error'));
+ * ```
+ */
+export function swap<A, B>(either: Either<A, B>): Either<B, A> {
+  return isLeft(either) ? Right(either.value) : Left(either.value)
+}
+
+/**
+ * Run a side effect on the Right value and return the Either untouched
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Left, Right, tap } from "jsr:@oneday/either";
+ *
+ * const values: Array<number> = [];
+ * const collect = tap((value: number) => values.push(value));
+ *
+ * assertEquals(collect(Right(2)), Right(2));
+ * assertEquals(collect(Left('error')), Left('error'));
+ * assertEquals(values, [2]);
+ * ```
+ */
+export function tap<B>(
+  f: (value: B) => unknown,
+): <A>(either: Either<A, B>) => Either<A, B> {
+  return (either) => {
+    if (isRight(either)) {
+      f(either.value)
+    }
+
+    return either
+  }
+}
+
+/**
+ * Run a function and turn a thrown exception into a Left with `onError`
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Left, Right, tryCatch } from "jsr:@oneday/either";
+ *
+ * const parseJSON = (value: string) =>
+ *   tryCatch(
+ *     (): unknown => JSON.parse(value),
+ *     (error) => (error as Error).name,
+ *   );
+ *
+ * assertEquals(parseJSON('{"id":1}'), Right({ id: 1 }));
+ * assertEquals(parseJSON('{'), Left('SyntaxError'));
+ * ```
+ */
+export function tryCatch<A, B>(
+  f: () => B,
+  onError: (error: unknown) => A,
+): Either<A, B> {
+  try {
+    return Right(f())
+  } catch (error) {
+    return Left(onError(error))
+  }
+}
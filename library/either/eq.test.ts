@@ -0,0 +1,79 @@
+import { assertEquals } from '@std/assert'
+import { Either, Left, Right } from './mod.ts'
+
+Deno.test({
+  name: 'Either.equals: strict equality by default',
+  fn() {
+    const equals = Either.equals<string, number>()
+
+    assertEquals(equals(Right(2), Right(2)), true)
+    assertEquals(equals(Left('error'), Left('error')), true)
+    assertEquals(equals(Right(2), Right(3)), false)
+    assertEquals(equals(Left('error'), Left('other')), false)
+    assertEquals(equals(Right(NaN), Right(NaN)), true)
+  },
+})
+
+Deno.test({
+  name: 'Either.equals: a Left is never equal to a Right',
+  fn() {
+    const equals = Either.equals<number, number>()
+
+    assertEquals(equals(Left(2), Right(2)), false)
+    assertEquals(equals(Right(2), Left(2)), false)
+  },
+})
+
+Deno.test({
+  name: 'Either.equals: custom equality of each side',
+  fn() {
+    const equals = Either.equals(
+      (a: Error, b: Error) => a.message === b.message,
+      (a: { id: string }, b: { id: string }) => a.id === b.id,
+    )
+
+    assertEquals(
+      equals(Left(new Error('Not found')), Left(new Error('Not found'))),
+      true,
+    )
+    assertEquals(equals(Right({ id: '1' }), Right({ id: '1' })), true)
+    assertEquals(equals(Right({ id: '1' }), Right({ id: '2' })), false)
+  },
+})
+
+Deno.test({
+  name: 'Either.compare: Lefts before Rights, each side with its ordering',
+  fn() {
+    const results: Array<Either<string, number>> = [
+      Right(3),
+      Left('b'),
+      Right(1),
+      Left('a'),
+      Right(2),
+    ]
+
+    results.sort(
+      Either.compare(
+        (a: string, b: string) => a.localeCompare(b),
+        (a: number, b: number) => a - b,
+      ),
+    )
+
+    assertEquals(results, [Left('a'), Left('b'), Right(1), Right(2), Right(3)])
+  },
+})
+
+Deno.test({
+  name: 'Either.compare: zero for equal values',
+  fn() {
+    const compare = Either.compare(
+      (a: string, b: string) => a.localeCompare(b),
+      (a: number, b: number) => a - b,
+    )
+
+    assertEquals(compare(Right(2), Right(2)), 0)
+    assertEquals(compare(Left('a'), Left('a')), 0)
+    assertEquals(compare(Left('z'), Right(0)) < 0, true)
+    assertEquals(compare(Right(0), Left('z')) > 0, true)
+  },
+})
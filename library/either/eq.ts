@@ -0,0 +1,77 @@
+import { type Either, isLeft, isRight } from './either.ts'
+
+/**
+ * Equality between two values
+ */
+export type Eq<T> = (a: T, b: T) => boolean
+
+/**
+ * Ordering between two values, negative when `a` comes first, positive when `b` comes first and zero when equal
+ */
+export type Ord<T> = (a: T, b: T) => number
+
+/**
+ * Build the equality of Either from the equality of each side, `Object.is` by default
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Either, Left, Right } from "jsr:@oneday/either";
+ *
+ * const equals = Either.equals(
+ *   (a: string, b: string) => a.toLowerCase() === b.toLowerCase(),
+ *   (a: number, b: number) => a === b,
+ * );
+ *
+ * assertEquals(equals(Left('ERROR'), Left('error')), true);
+ * assertEquals(equals(Right(2), Right(2)), true);
+ * assertEquals(equals(Left('2'), Right(2)), false);
+ * ```
+ */
+export function equals<A, B>(
+  eqLeft: Eq<A> = Object.is,
+  eqRight: Eq<B> = Object.is,
+): Eq<Either<A, B>> {
+  return (a, b) => {
+    if (isLeft(a)) {
+      return isLeft(b) && eqLeft(a.value, b.value)
+    }
+
+    return isRight(b) && eqRight(a.value, b.value)
+  }
+}
+
+/**
+ * Build the ordering of Either from the ordering of each side, a Left comes before a Right
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Either, Left, Right } from "jsr:@oneday/either";
+ *
+ * const results: Array<Either<string, number>> = [Right(3), Left('b'), Right(1), Left('a')];
+ *
+ * results.sort(
+ *   Either.compare(
+ *     (a: string, b: string) => a.localeCompare(b),
+ *     (a: number, b: number) => a - b,
+ *   ),
+ * );
+ *
+ * assertEquals(results, [Left('a'), Left('b'), Right(1), Right(3)]);
+ * ```
+ */
+export function compare<A, B>(
+  ordLeft: Ord<A>,
+  ordRight: Ord<B>,
+): Ord<Either<A, B>> {
+  return (a, b) => {
+    if (isLeft(a)) {
+      return isLeft(b) ? ordLeft(a.value, b.value) : -1
+    }
+
+    return isRight(b) ? ordRight(a.value, b.value) : 1
+  }
+}
@@ -0,0 +1,95 @@
+import { assertEquals } from '@std/assert'
+import { assertSpyCalls, spy } from '@std/testing/mock'
+import { assertType, type IsExact } from '@std/testing/types'
+import { Either, Left, Right, TaskEither } from './mod.ts'
+
+const parseValue = (value: unknown): Either<string, number> =>
+  typeof value === 'number' ? Right(value) : Left('Invalid value')
+
+const isPositive = (value: number): Either<Error, number> =>
+  value > 0 ? Right(value) : Left(new Error('Value is not positive'))
+
+Deno.test({
+  name: 'Either.gen: return Right when every step succeeds',
+  fn() {
+    // Act
+    const result = Either.gen(function* ($) {
+      const a = yield* $(parseValue(1))
+      const b = yield* $(isPositive(a))
+
+      return `${a + b}`
+    })
+
+    // Assert
+    assertEquals(result, Right('2'))
+    assertType<IsExact<typeof result, Either<string | Error, string>>>(true)
+  },
+})
+
+Deno.test({
+  name: 'Either.gen: early exit on the first Left',
+  fn() {
+    // Arrange
+    const step = spy(parseValue)
+    const cleanup = spy()
+
+    // Act
+    const result = Either.gen(function* ($) {
+      try {
+        const a = yield* $(step(-1))
+        const b = yield* $(isPositive(a))
+
+        return yield* $(step(b))
+      } finally {
+        cleanup()
+      }
+    })
+
+    // Assert
+    assertEquals(result, Left(new Error('Value is not positive')))
+    assertSpyCalls(step, 1)
+    assertSpyCalls(cleanup, 1)
+  },
+})
+
+Deno.test({
+  name: 'Either.genAsync: unwrap Either, promise and TaskEither',
+  async fn() {
+    // Act
+    const result = await Either.genAsync(async function* ($) {
+      const a = yield* $(parseValue(1))
+      const b = yield* $(Promise.resolve(isPositive(a)))
+      const c = yield* $(TaskEither.right<number, boolean>(b + 1))
+
+      return a + b + c
+    })
+
+    // Assert
+    assertEquals(result, Right(4))
+    assertType<
+      IsExact<typeof result, Either<string | Error | boolean, number>>
+    >(
+      true,
+    )
+  },
+})
+
+Deno.test({
+  name: 'Either.genAsync: early exit on the first Left',
+  async fn() {
+    // Arrange
+    const fetchUser = spy(() => Promise.resolve({ id: 1 }))
+
+    // Act
+    const result = await Either.genAsync(async function* ($) {
+      const a = yield* $(TaskEither.left('User not found'))
+      const user = yield* $(TaskEither.fromPromise(fetchUser, () => 'Network'))
+
+      return user.id + a
+    })
+
+    // Assert
+    assertEquals(result, Left('User not found'))
+    assertSpyCalls(fetchUser, 0)
+  },
+})
@@ -0,0 +1,132 @@
+import {
+  type Either,
+  isRight,
+  type Left,
+  type LeftOf,
+  Right,
+} from './either.ts'
+import type { TaskEither } from './task-either.ts'
+
+/**
+ * Unwrap an Either inside `gen` with `yield*`, a Left stops the generator
+ */
+export type Bind = <A, B>(
+  either: Either<A, B>,
+) => Generator<Left<A>, B, unknown>
+
+/**
+ * Unwrap an Either, a promise of Either or a TaskEither inside `genAsync` with `yield*`, a Left stops the generator
+ */
+export type BindAsync = <A, B>(
+  either: Either<A, B> | PromiseLike<Either<A, B>> | TaskEither<A, B>,
+) => AsyncGenerator<Left<A>, B, unknown>
+
+function* bind<A, B>(either: Either<A, B>): Generator<Left<A>, B, unknown> {
+  if (isRight(either)) {
+    return either.value
+  }
+
+  yield either
+
+  throw new Error('Generator resumed after a Left')
+}
+
+async function* bindAsync<A, B>(
+  either: Either<A, B> | PromiseLike<Either<A, B>> | TaskEither<A, B>,
+): AsyncGenerator<Left<A>, B, unknown> {
+  const resolved = await (typeof either === 'function' ? either() : either)
+
+  if (isRight(resolved)) {
+    return resolved.value
+  }
+
+  yield resolved
+
+  throw new Error('Generator resumed after a Left')
+}
+
+/**
+ * Do-notation for Either: each `yield*` unwraps a Right value, the first Left stops the generator and is returned
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Either, Left, Right } from "jsr:@oneday/either";
+ *
+ * const parseValue = (value: unknown): Either<string, number> =>
+ *   typeof value === 'number' ? Right(value) : Left('Invalid value');
+ *
+ * const isPositive = (value: number): Either<Error, number> =>
+ *   value > 0 ? Right(value) : Left(new Error('Value is not positive'));
+ *
+ * const sum = (left: unknown, right: unknown) =>
+ *   Either.gen(function* ($) {
+ *     const a = yield* $(parseValue(left));
+ *     const b = yield* $(isPositive(a));
+ *     const c = yield* $(parseValue(right));
+ *
+ *     return b + c;
+ *   });
+ *
+ * assertEquals(sum(1, 2), Right(3));
+ * assertEquals(sum(-1, 2), Left(new Error('Value is not positive')));
+ * assertEquals(sum(1, 'Hello'), Left('Invalid value'));
+ * ```
+ */
+export function gen<Y extends Left<unknown>, R>(
+  f: (bind: Bind) => Generator<Y, R, unknown>,
+): Either<LeftOf<Y>, R> {
+  const iterator = f(bind)
+  const result = iterator.next()
+
+  if (result.done) {
+    return Right(result.value)
+  }
+
+  // Run the finally blocks of the generator
+  iterator.return(undefined as R)
+
+  return result.value as Left<LeftOf<Y>>
+}
+
+/**
+ * Async do-notation for Either: each `yield*` unwraps an Either, a promise of Either or a TaskEither,
+ * the first Left stops the generator and is returned
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Either, Left, Right, TaskEither } from "jsr:@oneday/either";
+ *
+ * const findUser = (id: number): TaskEither<string, { id: number; name: string }> =>
+ *   id === 1 ? TaskEither.right({ id, name: 'john' }) : TaskEither.left('User not found');
+ *
+ * const greet = (id: number) =>
+ *   Either.genAsync(async function* ($) {
+ *     const user = yield* $(findUser(id));
+ *     const name = yield* $(Promise.resolve(Right(user.name.toUpperCase())));
+ *
+ *     return `Hello ${name}`;
+ *   });
+ *
+ * assertEquals(await greet(1), Right('Hello JOHN'));
+ * assertEquals(await greet(2), Left('User not found'));
+ * ```
+ */
+export async function genAsync<Y extends Left<unknown>, R>(
+  f: (bind: BindAsync) => AsyncGenerator<Y, R, unknown>,
+): Promise<Either<LeftOf<Y>, R>> {
+  const iterator = f(bindAsync)
+  const result = await iterator.next()
+
+  if (result.done) {
+    return Right(result.value)
+  }
+
+  // Run the finally blocks of the generator
+  await iterator.return(undefined as R)
+
+  return result.value as Left<LeftOf<Y>>
+}
@@ -0,0 +1,124 @@
+import { assertEquals, assertInstanceOf } from '@std/assert'
+import { assertType, type IsExact } from '@std/testing/types'
+import { DecodeError, Either, isLeft, Left, Right } from './mod.ts'
+
+type User = { id: number; name: string }
+
+const number = (value: unknown): Either<DecodeError, number> =>
+  typeof value === 'number'
+    ? Right(value)
+    : Left(new DecodeError('Expected a number'))
+
+const user = (value: unknown): Either<DecodeError, User> => {
+  if (typeof value !== 'object' || value === null) {
+    return Left(new DecodeError('Expected an object'))
+  }
+
+  const { id, name } = value as Record<string, unknown>
+
+  if (typeof id !== 'number') {
+    return Left(new DecodeError('Expected a number', ['id']))
+  }
+
+  return typeof name === 'string'
+    ? Right({ id, name })
+    : Left(new DecodeError('Expected a string', ['name']))
+}
+
+const roundTrip = (value: unknown): unknown => JSON.parse(JSON.stringify(value))
+
+Deno.test({
+  name: 'Either.fromJSON: decode a serialized Either',
+  fn() {
+    // Act
+    const right = Either.fromJSON(roundTrip(Right({ id: 1, name: 'john' })), {
+      left: number,
+      right: user,
+    })
+    const left = Either.fromJSON(roundTrip(Left(404)), {
+      left: number,
+      right: user,
+    })
+
+    // Assert
+    assertEquals(right, Right(Right({ id: 1, name: 'john' })))
+    assertEquals(left, Right(Left(404)))
+    assertType<
+      IsExact<typeof right, Either<DecodeError, Either<number, User>>>
+    >(true)
+  },
+})
+
+Deno.test({
+  name: 'Either.fromJSON: keep unknown value without decoder',
+  fn() {
+    const left = Either.fromJSON(roundTrip(Left('error')))
+    const right = Either.fromJSON(roundTrip(Right(2)), { right: number })
+
+    assertType<
+      IsExact<typeof left, Either<DecodeError, Either<unknown, unknown>>>
+    >(true)
+    assertType<
+      IsExact<typeof right, Either<DecodeError, Either<unknown, number>>>
+    >(true)
+    assertEquals(left, Right(Left('error')))
+    assertEquals(
+      Either.fromJSON(roundTrip(Right(undefined))),
+      Right(Right(undefined)),
+    )
+  },
+})
+
+Deno.test({
+  name: 'Either.fromJSON: reject invalid structure',
+  fn() {
+    for (
+      const json of [null, 'right', 2, [], {}, { tag: 'middle', value: 2 }]
+    ) {
+      const result = Either.fromJSON(json)
+
+      assertEquals(isLeft(result), true)
+      assertInstanceOf(result.value, DecodeError)
+      assertEquals(
+        result.value.message,
+        "Expected an Either with a tag 'left' or 'right'",
+      )
+      assertEquals((result.value as DecodeError).path, [])
+    }
+  },
+})
+
+Deno.test({
+  name: 'Either.fromJSON: decoder error carries the path',
+  fn() {
+    // Act
+    const result = Either.fromJSON(
+      { tag: 'right', value: { id: 1, name: 2 } },
+      { right: user },
+    )
+
+    // Assert
+    assertEquals(isLeft(result), true)
+    assertEquals((result.value as DecodeError).message, 'Expected a string')
+    assertEquals((result.value as DecodeError).path, ['value', 'name'])
+  },
+})
+
+Deno.test({
+  name: 'Either.decoder: decode nested Either',
+  fn() {
+    // Arrange
+    const decode = Either.decoder({
+      left: number,
+      right: Either.decoder({ right: user }),
+    })
+
+    // Act
+    const nested = decode(roundTrip(Right(Right({ id: 1, name: 'john' }))))
+    const invalid = decode({ tag: 'right', value: { tag: 'right', value: {} } })
+
+    // Assert
+    assertEquals(nested, Right(Right(Right({ id: 1, name: 'john' }))))
+    assertEquals((invalid.value as DecodeError).path, ['value', 'value', 'id'])
+  },
+})
@@ -0,0 +1,162 @@
+import { type Either, isLeft, Left, Right } from './either.ts'
+
+/**
+ * Decode error with the path of the invalid value
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { DecodeError } from "jsr:@oneday/either";
+ *
+ * const error = new DecodeError('Expected a number', ['value', 'id']);
+ *
+ * assertEquals(error.name, 'DecodeError');
+ * assertEquals(error.path, ['value', 'id']);
+ * ```
+ */
+export class DecodeError extends Error {
+  /**
+   * @param message further explanation
+   * @param path path of the invalid value
+   */
+  constructor(
+    message: string,
+    public readonly path: ReadonlyArray<string | number> = [],
+  ) {
+    super(message)
+
+    this.name = 'DecodeError'
+  }
+}
+
+/**
+ * Validate an unknown value and return it typed or a DecodeError
+ */
+export type Decoder<T> = (value: unknown) => Either<DecodeError, T>
+
+/**
+ * Decoders for the Left and Right values, an unknown value is kept and typed `unknown` when a decoder is missing
+ */
+export type EitherDecoders<A, B> = {
+  left?: Decoder<A>
+  right?: Decoder<B>
+}
+
+const unknownDecoder: Decoder<never> = (value) => Right(value as never)
+
+/**
+ * Build a decoder of Either, useful to decode nested Either
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { DecodeError, Either, Left, Right } from "jsr:@oneday/either";
+ *
+ * const number = (value: unknown): Either<DecodeError, number> =>
+ *   typeof value === 'number' ? Right(value) : Left(new DecodeError('Expected a number'));
+ *
+ * const decode = Either.decoder({ right: Either.decoder({ right: number }) });
+ *
+ * assertEquals(decode(JSON.parse('{"tag":"right","value":{"tag":"right","value":2}}')), Right(Right(Right(2))));
+ * assertEquals(decode({ tag: 'right', value: { tag: 'right', value: '2' } }).value, new DecodeError('Expected a number', ['value', 'value']));
+ * ```
+ */
+export function decoder<A, B>(
+  decoders: Required<EitherDecoders<A, B>>,
+): Decoder<Either<A, B>>
+export function decoder<A>(
+  decoders: { left: Decoder<A>; right?: undefined },
+): Decoder<Either<A, unknown>>
+export function decoder<B>(
+  decoders: { left?: undefined; right: Decoder<B> },
+): Decoder<Either<unknown, B>>
+export function decoder(
+  decoders?: EitherDecoders<unknown, unknown>,
+): Decoder<Either<unknown, unknown>>
+export function decoder<A, B>(
+  decoders: EitherDecoders<A, B> = {},
+): Decoder<Either<A, B>> {
+  return decodeEither(decoders)
+}
+
+// Decoder of Either, a missing decoder keeps the unknown value
+function decodeEither<A, B>(
+  decoders: EitherDecoders<A, B>,
+): Decoder<Either<A, B>> {
+  return (json) => {
+    if (
+      typeof json !== 'object' || json === null ||
+      !('tag' in json) || (json.tag !== 'left' && json.tag !== 'right')
+    ) {
+      return Left(
+        new DecodeError("Expected an Either with a tag 'left' or 'right'"),
+      )
+    }
+
+    const value = 'value' in json ? json.value : undefined
+
+    if (json.tag === 'left') {
+      const decoded = (decoders.left ?? unknownDecoder)(value)
+
+      return isLeft(decoded)
+        ? Left(withPath(decoded.value))
+        : Right(Left(decoded.value))
+    }
+
+    const decoded = (decoders.right ?? unknownDecoder)(value)
+
+    return isLeft(decoded)
+      ? Left(withPath(decoded.value))
+      : Right(Right(decoded.value))
+  }
+}
+
+function withPath(error: DecodeError): DecodeError {
+  return new DecodeError(error.message, ['value', ...error.path])
+}
+
+/**
+ * Validate an Either received across a process boundary (worker, Deno KV, JSON.parse...),
+ * a Right of the typed Either or a Left of DecodeError.
+ * A missing `value` is decoded as `undefined`, as `JSON.stringify` drops it.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { DecodeError, Either, Left, Right } from "jsr:@oneday/either";
+ *
+ * const number = (value: unknown): Either<DecodeError, number> =>
+ *   typeof value === 'number' ? Right(value) : Left(new DecodeError('Expected a number'));
+ *
+ * const json = JSON.stringify(Right(2));
+ *
+ * assertEquals(Either.fromJSON(JSON.parse(json), { right: number }), Right(Right(2)));
+ * assertEquals(Either.fromJSON({ tag: 'right', value: '2' }, { right: number }).value, new DecodeError('Expected a number', ['value']));
+ * assertEquals(Either.fromJSON({ tag: 'middle' }).value, new DecodeError("Expected an Either with a tag 'left' or 'right'"));
+ * ```
+ */
+export function fromJSON<A, B>(
+  json: unknown,
+  decoders: Required<EitherDecoders<A, B>>,
+): Either<DecodeError, Either<A, B>>
+export function fromJSON<A>(
+  json: unknown,
+  decoders: { left: Decoder<A>; right?: undefined },
+): Either<DecodeError, Either<A, unknown>>
+export function fromJSON<B>(
+  json: unknown,
+  decoders: { left?: undefined; right: Decoder<B> },
+): Either<DecodeError, Either<unknown, B>>
+export function fromJSON(
+  json: unknown,
+  decoders?: EitherDecoders<unknown, unknown>,
+): Either<DecodeError, Either<unknown, unknown>>
+export function fromJSON<A, B>(
+  json: unknown,
+  decoders: EitherDecoders<A, B> = {},
+): Either<DecodeError, Either<A, B>> {
+  return decodeEither(decoders)(json)
+}
@@ -0,0 +1,116 @@
+import { assertEquals } from '@std/assert'
+import { spy } from '@std/testing/mock'
+import { checkLaws, type Either, Left, Right } from './mod.ts'
+
+const arbitraryInteger = (random: () => number) =>
+  Math.floor(random() * 2000) - 1000
+
+const isPositive = (value: number): Either<string, number> =>
+  value > 0 ? Right(value) : Left('Value is not positive')
+
+const half = (value: number): Either<string, number> =>
+  value % 2 === 0 ? Right(value / 2) : Left('Odd value')
+
+Deno.test({
+  name: 'checkLaws: lawful functions',
+  fn() {
+    assertEquals(
+      checkLaws({ arbitrary: arbitraryInteger, f: isPositive, g: half }),
+      [],
+    )
+  },
+})
+
+Deno.test({
+  name: 'checkLaws: structural equality by default',
+  fn() {
+    const violations = checkLaws({
+      arbitrary: (random) => ({ id: arbitraryInteger(random) }),
+      f: ({ id }): Either<Error, { id: number }> =>
+        id > 0 ? Right({ id }) : Left(new Error(`Invalid id ${id}`)),
+      g: ({ id }): Either<Error, { id: number }> => Right({ id: id * 2 }),
+    })
+
+    assertEquals(violations, [])
+  },
+})
+
+Deno.test({
+  name: 'checkLaws: number of runs',
+  fn() {
+    const arbitrary = spy(arbitraryInteger)
+
+    checkLaws({ arbitrary, f: isPositive, g: half, runs: 10 })
+
+    assertEquals(arbitrary.calls.length, 10)
+  },
+})
+
+Deno.test({
+  name: 'checkLaws: same seed, same inputs',
+  fn() {
+    const inputs = (seed: number) => {
+      const values: Array<number> = []
+
+      checkLaws({
+        arbitrary: (random) => {
+          const value = arbitraryInteger(random)
+
+          values.push(value)
+
+          return value
+        },
+        f: isPositive,
+        g: half,
+        runs: 20,
+        seed,
+      })
+
+      return values
+    }
+
+    assertEquals(inputs(42), inputs(42))
+    assertEquals(inputs(42).length, 20)
+  },
+})
+
+Deno.test({
+  name: 'checkLaws: violation with the law, the input and the seed',
+  fn() {
+    let calls = 0
+
+    // Impure function, the result depends on the number of calls
+    const counter = (value: number): Either<string, number> =>
+      Right(value + calls++)
+
+    const violations = checkLaws({
+      arbitrary: () => 1,
+      f: counter,
+      g: half,
+      runs: 1,
+      seed: 7,
+    })
+
+    assertEquals(
+      violations.some(({ law }) => law === 'monad left identity'),
+      true,
+    )
+    assertEquals(violations[0].input, 1)
+    assertEquals(violations[0].seed, 7)
+  },
+})
+
+Deno.test({
+  name: 'checkLaws: custom equality',
+  fn() {
+    const violations = checkLaws({
+      arbitrary: arbitraryInteger,
+      f: isPositive,
+      g: half,
+      runs: 10,
+      equals: () => false,
+    })
+
+    assertEquals(violations.length, 50)
+  },
+})
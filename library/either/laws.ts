@@ -0,0 +1,141 @@
+import { isDeepStrictEqual } from 'node:util'
+import { type Either, flatMap, getOrElse, map, Right } from './either.ts'
+import type { Eq } from './eq.ts'
+
+/**
+ * Functor and monad laws verified by `checkLaws`
+ */
+export type Law =
+  | 'functor identity'
+  | 'functor composition'
+  | 'monad left identity'
+  | 'monad right identity'
+  | 'monad associativity'
+
+/**
+ * Options of `checkLaws`
+ */
+export type LawsOptions<A, B> = {
+  /** generate a random input from a random number in [0, 1), use it instead of `Math.random` to replay a seed */
+  arbitrary: (random: () => number) => B
+  /** first Either-returning function under test */
+  f: (value: B) => Either<A, B>
+  /** second Either-returning function under test */
+  g: (value: B) => Either<A, B>
+  /** equality of the results, structural equality by default */
+  equals?: Eq<Either<A, B>>
+  /** number of random inputs, 100 by default */
+  runs?: number
+  /** seed of the random inputs, random by default */
+  seed?: number
+}
+
+/**
+ * Broken law with the input and the seed to replay it
+ */
+export type LawViolation<B> = {
+  law: Law
+  input: B
+  seed: number
+}
+
+// mulberry32, small seedable generator of numbers in [0, 1)
+function random(seed: number): () => number {
+  let state = seed >>> 0
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Check the functor and monad laws of Either against your own Either-returning functions with random inputs.
+ * Each input is checked both as a Right and as the result of `f`, so Left values are covered as soon as `f` fails.
+ * The functor composition uses `f` and `g` made total, a Left falls back to the input.
+ * An empty array means every law holds, a violation gives the seed to replay the run.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { checkLaws, Left, Right } from "jsr:@oneday/either";
+ *
+ * const violations = checkLaws({
+ *   arbitrary: (random) => Math.floor(random() * 200) - 100,
+ *   f: (value: number) => value >= 0 ? Right(value) : Left('Negative value'),
+ *   g: (value: number) => value % 2 === 0 ? Right(value / 2) : Left('Odd value'),
+ *   seed: 42,
+ * });
+ *
+ * assertEquals(violations, []);
+ * ```
+ */
+export function checkLaws<A, B>(
+  options: LawsOptions<A, B>,
+): Array<LawViolation<B>> {
+  const {
+    arbitrary,
+    f,
+    g,
+    equals = isDeepStrictEqual,
+    runs = 100,
+    seed = Math.floor(Math.random() * 4294967296),
+  } = options
+  const next = random(seed)
+  const violations: Array<LawViolation<B>> = []
+
+  const identity = (value: B) => value
+  const right = (value: B): Either<A, B> => Right(value)
+  const totalF = (value: B) => getOrElse(() => value)(f(value))
+  const totalG = (value: B) => getOrElse(() => value)(g(value))
+
+  const laws: Array<[Law, (input: B, either: Either<A, B>) => boolean]> = [
+    [
+      'functor identity',
+      (_, either) => equals(map(identity)(either), either),
+    ],
+    [
+      'functor composition',
+      (_, either) =>
+        equals(
+          map((value: B) => totalG(totalF(value)))(either),
+          map(totalG)(map(totalF)(either)),
+        ),
+    ],
+    [
+      'monad left identity',
+      (input) => equals(flatMap(f)(right(input)), f(input)),
+    ],
+    [
+      'monad right identity',
+      (_, either) => equals(flatMap(right)(either), either),
+    ],
+    [
+      'monad associativity',
+      (_, either) =>
+        equals(
+          flatMap(g)(flatMap(f)(either)),
+          flatMap((value: B) => flatMap(g)(f(value)))(either),
+        ),
+    ],
+  ]
+
+  for (let run = 0; run < runs; run++) {
+    const input = arbitrary(next)
+    const eithers = [right(input), f(input)]
+
+    for (const [law, holds] of laws) {
+      if (!eithers.every((either) => holds(input, either))) {
+        violations.push({ law, input, seed })
+      }
+    }
+  }
+
+  return violations
+}
@@ -8,102 +8,122 @@
  * This pattern allows us to obtain better error management in order to define http status code, for example, without the domain being coupled to the http server.
  *
  * We can now separate a technical error from a business error. A technical error will throw and interrupt code execution whereas a business error maintains execution and becomes the responsibility of the domain.
- */
-
-interface Left<A> {
-  readonly value: A
-  readonly tag: 'left'
-}
-
-interface Right<B> {
-  readonly value: B
-  readonly tag: 'right'
-}
-
-/**
- * Error Handling with the Either type
- *
- *  # Example
  *
- * ```ts ignore
+ * @example Combinators with flow
+ * ```ts
  * import { assertEquals } from 'jsr:@std/assert/equals';
- * import { Either } from "jsr:@oneday/either";
+ * import { Either, flatMap, flow, fold, Left, map, Right } from 'jsr:@oneday/either';
  *
  * const parseValue = (value: unknown): Either<string, number> =>
- *    typeof value === 'number' ? Right(value) : Left('Invalid value')
- *
- * const valueOrError = parseValue('Hello')
- *
- * assertEquals(isLeft(valueOrError), true);
- * assertEquals(valueOrError.value, 'Invalid value');
+ *   typeof value === 'number' ? Right(value) : Left('Invalid value');
+ *
+ * const isPositive = (value: number): Either<string, number> =>
+ *   value > 0 ? Right(value) : Left('Value is not positive');
+ *
+ * const run = flow(
+ *   parseValue,
+ *   flatMap(isPositive),
+ *   map((value) => value * 2),
+ *   fold(
+ *     (error) => `Error: ${error}`,
+ *     (value) => `Value: ${value}`,
+ *   ),
+ * );
+ *
+ * assertEquals(run(2), 'Value: 4');
+ * assertEquals(run(-2), 'Error: Value is not positive');
+ * assertEquals(run('Hello'), 'Error: Invalid value');
  * ```
  */
-export type Either<A, B> = Left<A> | Right<B>
+
+import type { Either as EitherType } from './either.ts'
+import { compare, equals } from './eq.ts'
+import { gen, genAsync } from './gen.ts'
+import { decoder, fromJSON } from './json.ts'
+
+export {
+  bimap,
+  chain,
+  flatMap,
+  fold,
+  getOrElse,
+  isLeft,
+  isRight,
+  Left,
+  type LeftOf,
+  map,
+  mapLeft,
+  match,
+  orElse,
+  Right,
+  type RightOf,
+  swap,
+  tap,
+  tryCatch,
+} from './either.ts'
+
+export {
+  type NonEmptyArray,
+  sequence,
+  sequenceRecord,
+  traverse,
+  traverseRecord,
+  validate,
+  validateRecord,
+} from './collect.ts'
+export {
+  defineErrors,
+  type DomainError,
+  type ErrorFamily,
+  type ErrorOf,
+  matchError,
+  toHttpStatus,
+} from './domain-error.ts'
+export type { Eq, Ord } from './eq.ts'
+export type { Bind, BindAsync } from './gen.ts'
+export { DecodeError, type Decoder, type EitherDecoders } from './json.ts'
+export {
+  checkLaws,
+  type Law,
+  type LawsOptions,
+  type LawViolation,
+} from './laws.ts'
+export { isNone, isSome, None, Option, Some } from './option.ts'
+export { flow, pipe } from './pipe.ts'
+export { TaskEither } from './task-either.ts'
 
 /**
- * Determine if value on Left
- *
- * # Example
- *
- * ```ts
- * import { assertEquals } from 'jsr:@std/assert/equals';
- * import { Left, isLeft } from "jsr:@oneday/either";
- *
- * const leftValue = Left('value');
- *
- * assertEquals(isLeft(leftValue), true);
- * ```
+ * Error Handling with the Either type, a Left for a failure and a Right for a success
  */
-export function isLeft<A, B>(val: Either<A, B>): val is Left<A> {
-  return val.tag === 'left'
-}
+export type Either<A, B> = EitherType<A, B>
 
 /**
- * Determine if value on Right
+ * Either helpers
  *
  * # Example
  *
  * ```ts
  * import { assertEquals } from 'jsr:@std/assert/equals';
- * import { Right, isRight } from "jsr:@oneday/either";
- *
- * const rightValue = Right('value');
+ * import { Either, Left, Right } from "jsr:@oneday/either";
  *
- * assertEquals(isRight(rightValue), true);
- * ```
- */
-export function isRight<A, B>(val: Either<A, B>): val is Right<B> {
-  return val.tag === 'right'
-}
-
-/**
- *  # Example
- *
- * ```ts
- * import { assertEquals } from 'jsr:@std/assert/equals';
- * import { Left } from "jsr:@oneday/either";
- *
- * const leftValue = Left('value');
- *
- * assertEquals(leftValue, { tag: 'left', value: 'value' });
- * ```
- */
-export function Left<A>(val: A): Left<A> {
-  return { tag: 'left', value: val }
-}
-
-/**
- *  # Example
+ * const parseValue = (value: unknown): Either<string, number> =>
+ *   typeof value === 'number' ? Right(value) : Left('Invalid value');
  *
- * ```ts
- * import { assertEquals } from 'jsr:@std/assert/equals';
- * import { Right } from "jsr:@oneday/either";
+ * const double = (value: unknown) =>
+ *   Either.gen(function* ($) {
+ *     const a = yield* $(parseValue(value));
  *
- * const rightValue = Right('value');
+ *     return a * 2;
+ *   });
  *
- * assertEquals(rightValue, { tag: 'right', value: 'value' });
+ * assertEquals(double(2), Right(4));
  * ```
  */
-export function Right<B>(val: B): Right<B> {
-  return { tag: 'right', value: val }
+export const Either = {
+  gen,
+  genAsync,
+  decoder,
+  fromJSON,
+  equals,
+  compare,
 }
@@ -0,0 +1,122 @@
+import { assertEquals } from '@std/assert'
+import { assertSpyCalls, spy } from '@std/testing/mock'
+import { assertType, type IsExact } from '@std/testing/types'
+import {
+  type Either,
+  isNone,
+  isSome,
+  Left,
+  None,
+  Option,
+  pipe,
+  Right,
+  Some,
+} from './mod.ts'
+
+type User = { id: string; email?: string }
+
+const users = new Map<string, User>([['1234', { id: '1234' }]])
+
+Deno.test({
+  name: 'Option: Some and None keep the tag shape',
+  fn() {
+    assertEquals(Some(1), { tag: 'some', value: 1 })
+    assertEquals(None, { tag: 'none' })
+    assertEquals(isSome(Some(1)), true)
+    assertEquals(isNone(None), true)
+  },
+})
+
+Deno.test({
+  name: 'Option: fromNullable and toNullable',
+  fn() {
+    // Act
+    const user = Option.fromNullable(users.get('1234'))
+
+    // Assert
+    assertEquals(user, Some({ id: '1234' }))
+    assertEquals(Option.fromNullable(users.get('0')), None)
+    assertEquals(Option.fromNullable(''), Some(''))
+    assertEquals(Option.fromNullable(null), None)
+    assertEquals(Option.toNullable(user), { id: '1234' })
+    assertEquals(Option.toNullable(None), null)
+    assertType<IsExact<typeof user, Option<User>>>(true)
+  },
+})
+
+Deno.test({
+  name: 'Option: Either conversions',
+  fn() {
+    // Arrange
+    const onNone = spy(() => 'User not found')
+
+    // Act
+    const found = Option.toEither(onNone)(Some('john'))
+    const missing = Option.toEither(onNone)(None)
+
+    // Assert
+    assertEquals(found, Right('john'))
+    assertEquals(missing, Left('User not found'))
+    assertSpyCalls(onNone, 1)
+    assertEquals(Option.fromEither(Right(2)), Some(2))
+    assertEquals(Option.fromEither(Left('error')), None)
+  },
+})
+
+Deno.test({
+  name: 'Option: map, flatMap and filter',
+  fn() {
+    const double = Option.map((value: number) => value * 2)
+    const email = Option.flatMap((user: User) =>
+      Option.fromNullable(user.email)
+    )
+    const positive = Option.filter((value: number) => value > 0)
+
+    assertEquals(double(Some(2)), Some(4))
+    assertEquals(double(None), None)
+    assertEquals(
+      email(Some({ id: '1', email: 'john@doe.com' })),
+      Some('john@doe.com'),
+    )
+    assertEquals(email(Some({ id: '1' })), None)
+    assertEquals(positive(Some(2)), Some(2))
+    assertEquals(positive(Some(-2)), None)
+    assertEquals(positive(None), None)
+  },
+})
+
+Deno.test({
+  name: 'Option: fold, getOrElse and orElse',
+  fn() {
+    const greet = Option.fold(
+      () => 'Hello guest',
+      (name: string) => `Hello ${name}`,
+    )
+    const orGuest = Option.getOrElse(() => 'guest')
+    const orDefault = Option.orElse(() => Some('default'))
+
+    assertEquals(greet(Some('john')), 'Hello john')
+    assertEquals(greet(None), 'Hello guest')
+    assertEquals(orGuest(Some('john')), 'john')
+    assertEquals(orGuest(None), 'guest')
+    assertEquals(orDefault(Some('john')), Some('john'))
+    assertEquals(orDefault(None), Some('default'))
+  },
+})
+
+Deno.test({
+  name: 'Option: pipeline from nullable lookup to Either',
+  fn() {
+    // Arrange
+    const userId = (id: string): Either<string, string> =>
+      pipe(
+        Option.fromNullable(users.get(id)),
+        Option.map((user) => user.id),
+        Option.toEither(() => 'Unauthorized'),
+      )
+
+    // Act & Assert
+    assertEquals(userId('1234'), Right('1234'))
+    assertEquals(userId('0'), Left('Unauthorized'))
+  },
+})
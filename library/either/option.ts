@@ -0,0 +1,332 @@
+import { type Either, isLeft, Left, Right } from './either.ts'
+
+export interface Some<T> {
+  readonly value: T
+  readonly tag: 'some'
+}
+
+export interface None {
+  readonly tag: 'none'
+}
+
+/**
+ * Optional value with the Option type, a Some for a present value and a None for a missing one
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { None, Option, Some } from "jsr:@oneday/either";
+ *
+ * const findUser = (id: number): Option<string> =>
+ *   id === 1 ? Some('john') : None;
+ *
+ * assertEquals(findUser(1), Some('john'));
+ * assertEquals(findUser(2), None);
+ * ```
+ */
+export type Option<T> = Some<T> | None
+
+/**
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Some } from "jsr:@oneday/either";
+ *
+ * assertEquals(Some('value'), { tag: 'some', value: 'value' });
+ * ```
+ */
+export function Some<T>(value: T): Some<T> {
+  return { tag: 'some', value }
+}
+
+/**
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { None } from "jsr:@oneday/either";
+ *
+ * assertEquals(None, { tag: 'none' });
+ * ```
+ */
+export const None: None = { tag: 'none' }
+
+/**
+ * Determine if value is Some
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { isSome, None, Some } from "jsr:@oneday/either";
+ *
+ * assertEquals(isSome(Some('value')), true);
+ * assertEquals(isSome(None), false);
+ * ```
+ */
+export function isSome<T>(option: Option<T>): option is Some<T> {
+  return option.tag === 'some'
+}
+
+/**
+ * Determine if value is None
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { isNone, None, Some } from "jsr:@oneday/either";
+ *
+ * assertEquals(isNone(None), true);
+ * assertEquals(isNone(Some('value')), false);
+ * ```
+ */
+export function isNone<T>(option: Option<T>): option is None {
+  return option.tag === 'none'
+}
+
+/**
+ * None for `null` or `undefined`, Some otherwise
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { None, Option, Some } from "jsr:@oneday/either";
+ *
+ * assertEquals(Option.fromNullable('value'), Some('value'));
+ * assertEquals(Option.fromNullable(0), Some(0));
+ * assertEquals(Option.fromNullable(undefined), None);
+ * assertEquals(Option.fromNullable(null), None);
+ * ```
+ */
+export function fromNullable<T>(
+  value: T | null | undefined,
+): Option<NonNullable<T>> {
+  return value === null || value === undefined
+    ? None
+    : Some(value as NonNullable<T>)
+}
+
+/**
+ * Extract the value or `null` for None
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { None, Option, Some } from "jsr:@oneday/either";
+ *
+ * assertEquals(Option.toNullable(Some('value')), 'value');
+ * assertEquals(Option.toNullable(None), null);
+ * ```
+ */
+export function toNullable<T>(option: Option<T>): T | null {
+  return isSome(option) ? option.value : null
+}
+
+/**
+ * Convert an Either into an Option, a Left becomes None
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Left, None, Option, Right, Some } from "jsr:@oneday/either";
+ *
+ * assertEquals(Option.fromEither(Right(2)), Some(2));
+ * assertEquals(Option.fromEither(Left('error')), None);
+ * ```
+ */
+export function fromEither<A, B>(either: Either<A, B>): Option<B> {
+  return isLeft(either) ? None : Some(either.value)
+}
+
+/**
+ * Convert an Option into an Either, None becomes a Left with `onNone`
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Left, None, Option, Right, Some } from "jsr:@oneday/either";
+ *
+ * const toEither = Option.toEither(() => 'User not found');
+ *
+ * assertEquals(toEither(Some('john')), Right('john'));
+ * assertEquals(toEither(None), Left('User not found'));
+ * ```
+ */
+export function toEither<A>(
+  onNone: () => A,
+): <T>(option: Option<T>) => Either<A, T> {
+  return (option) => isSome(option) ? Right(option.value) : Left(onNone())
+}
+
+/**
+ * Apply a function to the Some value, None is returned untouched
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { None, Option, Some } from "jsr:@oneday/either";
+ *
+ * const double = Option.map((value: number) => value * 2);
+ *
+ * assertEquals(double(Some(2)), Some(4));
+ * assertEquals(double(None), None);
+ * ```
+ */
+export function map<T, U>(
+  f: (value: T) => U,
+): (option: Option<T>) => Option<U> {
+  return (option) => isSome(option) ? Some(f(option.value)) : None
+}
+
+/**
+ * Chain a function returning an Option on the Some value
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { None, Option, Some } from "jsr:@oneday/either";
+ *
+ * const head = <T>(values: Array<T>): Option<T> => values.length > 0 ? Some(values[0]) : None;
+ *
+ * assertEquals(Option.flatMap(head)(Some([1, 2])), Some(1));
+ * assertEquals(Option.flatMap(head)(Some([])), None);
+ * assertEquals(Option.flatMap(head)(None), None);
+ * ```
+ */
+export function flatMap<T, U>(
+  f: (value: T) => Option<U>,
+): (option: Option<T>) => Option<U> {
+  return (option) => isSome(option) ? f(option.value) : None
+}
+
+/**
+ * Keep the Some value only when the predicate is satisfied
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { None, Option, Some } from "jsr:@oneday/either";
+ *
+ * const positive = Option.filter((value: number) => value > 0);
+ *
+ * assertEquals(positive(Some(2)), Some(2));
+ * assertEquals(positive(Some(-2)), None);
+ * ```
+ */
+export function filter<T>(
+  predicate: (value: T) => boolean,
+): (option: Option<T>) => Option<T> {
+  return (option) => isSome(option) && predicate(option.value) ? option : None
+}
+
+/**
+ * Reduce an Option to a single value, `onNone` for None and `onSome` for Some
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { None, Option, Some } from "jsr:@oneday/either";
+ *
+ * const greet = Option.fold(
+ *   () => 'Hello guest',
+ *   (name: string) => `Hello ${name}`,
+ * );
+ *
+ * assertEquals(greet(Some('john')), 'Hello john');
+ * assertEquals(greet(None), 'Hello guest');
+ * ```
+ */
+export function fold<T, U, V = U>(
+  onNone: () => U,
+  onSome: (value: T) => V,
+): (option: Option<T>) => U | V {
+  return (option) => isSome(option) ? onSome(option.value) : onNone()
+}
+
+/**
+ * Extract the Some value or compute a fallback
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { None, Option, Some } from "jsr:@oneday/either";
+ *
+ * const orGuest = Option.getOrElse(() => 'guest');
+ *
+ * assertEquals(orGuest(Some('john')), 'john');
+ * assertEquals(orGuest(None), 'guest');
+ * ```
+ */
+export function getOrElse<U>(
+  onNone: () => U,
+): <T>(option: Option<T>) => T | U {
+  return (option) => isSome(option) ? option.value : onNone()
+}
+
+/**
+ * Recover from None with a function returning a new Option, Some is returned untouched
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { None, Option, Some } from "jsr:@oneday/either";
+ *
+ * const fromCache = Option.orElse(() => Some('cached'));
+ *
+ * assertEquals(fromCache(None), Some('cached'));
+ * assertEquals(fromCache(Some('fresh')), Some('fresh'));
+ * ```
+ */
+export function orElse<U>(
+  f: () => Option<U>,
+): <T>(option: Option<T>) => Option<T | U> {
+  return (option) => isSome(option) ? option : f()
+}
+
+/**
+ * Option constructors, conversions and combinators
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Left, Option, pipe, Right } from "jsr:@oneday/either";
+ *
+ * const store = new Map<string, { id: string }>([['user', { id: '1234' }]]);
+ *
+ * const userId = (key: string) =>
+ *   pipe(
+ *     Option.fromNullable(store.get(key)),
+ *     Option.map((user) => user.id),
+ *     Option.toEither(() => 'Unauthorized'),
+ *   );
+ *
+ * assertEquals(userId('user'), Right('1234'));
+ * assertEquals(userId('admin'), Left('Unauthorized'));
+ * ```
+ */
+export const Option = {
+  fromNullable,
+  toNullable,
+  fromEither,
+  toEither,
+  map,
+  flatMap,
+  filter,
+  fold,
+  getOrElse,
+  orElse,
+}
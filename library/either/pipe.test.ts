@@ -0,0 +1,95 @@
+import { assertEquals } from '@std/assert'
+import { assertType, type IsExact } from '@std/testing/types'
+import {
+  type Either,
+  flatMap,
+  flow,
+  fold,
+  Left,
+  map,
+  mapLeft,
+  pipe,
+  Right,
+} from './mod.ts'
+
+const parseValue = (value: unknown): Either<string, number> =>
+  typeof value === 'number' ? Right(value) : Left('Invalid value')
+
+const isPositive = (value: number): Either<Error, number> =>
+  value > 0 ? Right(value) : Left(new Error('Value is not positive'))
+
+Deno.test({
+  name: 'pipe: without function returns the value',
+  fn() {
+    assertEquals(pipe(2), 2)
+  },
+})
+
+Deno.test({
+  name: 'pipe: Either pipeline reads top-to-bottom',
+  fn() {
+    // Act
+    const result = pipe(
+      2,
+      parseValue,
+      flatMap(isPositive),
+      map((value) => value * 2),
+    )
+
+    // Assert
+    assertEquals(result, Right(4))
+    assertType<IsExact<typeof result, Either<string | Error, number>>>(true)
+  },
+})
+
+Deno.test({
+  name: 'pipe: infers long chains',
+  fn() {
+    // Act
+    const result = pipe(
+      1,
+      (value) => value + 1,
+      (value) => `${value}`,
+      (value) => value.length,
+      (value) => value + 1,
+      parseValue,
+      map((value) => value * 10),
+      map((value) => [value]),
+      map(([value]) => value),
+      flatMap(isPositive),
+      mapLeft((error) => typeof error === 'string' ? error : error.message),
+      fold(
+        (error) => `Error: ${error}`,
+        (value) => `Value: ${value}`,
+      ),
+      (value) => value.toUpperCase(),
+    )
+
+    // Assert
+    assertEquals(result, 'VALUE: 20')
+    assertType<IsExact<typeof result, string>>(true)
+  },
+})
+
+Deno.test({
+  name: 'flow: compose functions with arguments',
+  fn() {
+    // Arrange
+    const run = flow(
+      (left: number, right: number) => left - right,
+      parseValue,
+      flatMap(isPositive),
+      map((value) => value * 2),
+    )
+
+    // Act & Assert
+    assertEquals(run(3, 1), Right(4))
+    assertEquals(run(1, 3), Left(new Error('Value is not positive')))
+    assertType<
+      IsExact<
+        typeof run,
+        (left: number, right: number) => Either<string | Error, number>
+      >
+    >(true)
+  },
+})
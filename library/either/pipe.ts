@@ -0,0 +1,334 @@
+/**
+ * Pipe a value through a list of functions, from left to right
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Either, flatMap, Left, map, pipe, Right } from "jsr:@oneday/either";
+ *
+ * const parseValue = (value: unknown): Either<string, number> =>
+ *   typeof value === 'number' ? Right(value) : Left('Invalid value');
+ *
+ * const isPositive = (value: number): Either<string, number> =>
+ *   value > 0 ? Right(value) : Left('Value is not positive');
+ *
+ * assertEquals(
+ *   pipe(
+ *     2,
+ *     parseValue,
+ *     flatMap(isPositive),
+ *     map((value) => value * 2),
+ *   ),
+ *   Right(4),
+ * );
+ * ```
+ */
+export function pipe<A>(
+  a: A,
+): A
+export function pipe<A, B>(
+  a: A,
+  ab: (a: A) => B,
+): B
+export function pipe<A, B, C>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+): C
+export function pipe<A, B, C, D>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+): D
+export function pipe<A, B, C, D, E>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+): E
+export function pipe<A, B, C, D, E, F>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+): F
+export function pipe<A, B, C, D, E, F, G>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+): G
+export function pipe<A, B, C, D, E, F, G, H>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+): H
+export function pipe<A, B, C, D, E, F, G, H, I>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+): I
+export function pipe<A, B, C, D, E, F, G, H, I, J>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+  ij: (i: I) => J,
+): J
+export function pipe<A, B, C, D, E, F, G, H, I, J, K>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+  ij: (i: I) => J,
+  jk: (j: J) => K,
+): K
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+  ij: (i: I) => J,
+  jk: (j: J) => K,
+  kl: (k: K) => L,
+): L
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+  ij: (i: I) => J,
+  jk: (j: J) => K,
+  kl: (k: K) => L,
+  lm: (l: L) => M,
+): M
+export function pipe(
+  value: unknown,
+  ...functions: Array<(value: unknown) => unknown>
+): unknown {
+  return functions.reduce((acc, fn) => fn(acc), value)
+}
+
+/**
+ * Compose a list of functions, from left to right, the first function can take any number of arguments
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Either, flatMap, flow, Left, map, Right } from "jsr:@oneday/either";
+ *
+ * const parseValue = (value: unknown): Either<string, number> =>
+ *   typeof value === 'number' ? Right(value) : Left('Invalid value');
+ *
+ * const isPositive = (value: number): Either<string, number> =>
+ *   value > 0 ? Right(value) : Left('Value is not positive');
+ *
+ * const run = flow(
+ *   parseValue,
+ *   flatMap(isPositive),
+ *   map((value) => value * 2),
+ * );
+ *
+ * assertEquals(run(2), Right(4));
+ * assertEquals(run(-2), Left('Value is not positive'));
+ * ```
+ */
+export function flow<P extends ReadonlyArray<unknown>, B>(
+  ab: (...args: P) => B,
+): (...args: P) => B
+export function flow<P extends ReadonlyArray<unknown>, B, C>(
+  ab: (...args: P) => B,
+  bc: (b: B) => C,
+): (...args: P) => C
+export function flow<P extends ReadonlyArray<unknown>, B, C, D>(
+  ab: (...args: P) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+): (...args: P) => D
+export function flow<P extends ReadonlyArray<unknown>, B, C, D, E>(
+  ab: (...args: P) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+): (...args: P) => E
+export function flow<P extends ReadonlyArray<unknown>, B, C, D, E, F>(
+  ab: (...args: P) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+): (...args: P) => F
+export function flow<P extends ReadonlyArray<unknown>, B, C, D, E, F, G>(
+  ab: (...args: P) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+): (...args: P) => G
+export function flow<P extends ReadonlyArray<unknown>, B, C, D, E, F, G, H>(
+  ab: (...args: P) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+): (...args: P) => H
+export function flow<P extends ReadonlyArray<unknown>, B, C, D, E, F, G, H, I>(
+  ab: (...args: P) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+): (...args: P) => I
+export function flow<
+  P extends ReadonlyArray<unknown>,
+  B,
+  C,
+  D,
+  E,
+  F,
+  G,
+  H,
+  I,
+  J,
+>(
+  ab: (...args: P) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+  ij: (i: I) => J,
+): (...args: P) => J
+export function flow<
+  P extends ReadonlyArray<unknown>,
+  B,
+  C,
+  D,
+  E,
+  F,
+  G,
+  H,
+  I,
+  J,
+  K,
+>(
+  ab: (...args: P) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+  ij: (i: I) => J,
+  jk: (j: J) => K,
+): (...args: P) => K
+export function flow<
+  P extends ReadonlyArray<unknown>,
+  B,
+  C,
+  D,
+  E,
+  F,
+  G,
+  H,
+  I,
+  J,
+  K,
+  L,
+>(
+  ab: (...args: P) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+  ij: (i: I) => J,
+  jk: (j: J) => K,
+  kl: (k: K) => L,
+): (...args: P) => L
+export function flow<
+  P extends ReadonlyArray<unknown>,
+  B,
+  C,
+  D,
+  E,
+  F,
+  G,
+  H,
+  I,
+  J,
+  K,
+  L,
+  M,
+>(
+  ab: (...args: P) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+  ij: (i: I) => J,
+  jk: (j: J) => K,
+  kl: (k: K) => L,
+  lm: (l: L) => M,
+): (...args: P) => M
+export function flow(
+  ...functions: Array<(...args: Array<unknown>) => unknown>
+): (...args: Array<unknown>) => unknown {
+  const [first, ...rest] = functions
+
+  return (...args) => rest.reduce((acc, fn) => fn(acc), first(...args))
+}
@@ -0,0 +1,129 @@
+import { assertEquals } from '@std/assert'
+import { assertSpyCalls, spy } from '@std/testing/mock'
+import { Left, Right, TaskEither } from './mod.ts'
+
+const findUser = (id: number): TaskEither<string, { id: number }> =>
+  id === 1 ? TaskEither.right({ id }) : TaskEither.left('User not found')
+
+Deno.test({
+  name: 'TaskEither: constructors',
+  async fn() {
+    assertEquals(await TaskEither.right(2)(), Right(2))
+    assertEquals(await TaskEither.left('error')(), Left('error'))
+    assertEquals(await TaskEither.fromEither(Left('error'))(), Left('error'))
+  },
+})
+
+Deno.test({
+  name: 'TaskEither: fromPromise turns rejection into Left',
+  async fn() {
+    // Arrange
+    const onRejected = spy((reason: unknown) => (reason as Error).message)
+
+    // Act
+    const resolved = await TaskEither.fromPromise(
+      Promise.resolve(2),
+      onRejected,
+    )()
+    const rejected = await TaskEither.fromPromise(
+      () => Promise.reject(new Error('Network error')),
+      onRejected,
+    )()
+
+    // Assert
+    assertEquals(resolved, Right(2))
+    assertEquals(rejected, Left('Network error'))
+    assertSpyCalls(onRejected, 1)
+  },
+})
+
+Deno.test({
+  name: 'TaskEither: fromPromise handles an eager rejection before the call',
+  async fn() {
+    // Arrange
+    const task = TaskEither.fromPromise(
+      Promise.reject(new Error('boom')),
+      (reason) => (reason as Error).message,
+    )
+
+    // Act
+    await new Promise((resolve) => setTimeout(resolve, 10))
+
+    // Assert
+    assertEquals(await task(), Left('boom'))
+    assertEquals(await task(), Left('boom'))
+  },
+})
+
+Deno.test({
+  name: 'TaskEither: fromPromise turns a synchronous throw into Left',
+  async fn() {
+    // Arrange
+    const task = TaskEither.fromPromise(
+      (): Promise<number> => {
+        throw new Error('boom')
+      },
+      (reason) => (reason as Error).message,
+    )
+
+    // Act
+    const result = await task()
+
+    // Assert
+    assertEquals(result, Left('boom'))
+  },
+})
+
+Deno.test({
+  name: 'TaskEither: composition is lazy',
+  async fn() {
+    // Arrange
+    const fetchUser = spy(() => Promise.resolve({ id: 1 }))
+
+    // Act
+    const task = TaskEither.map((user: { id: number }) => user.id)(
+      TaskEither.fromPromise(fetchUser, () => 'Network error'),
+    )
+
+    // Assert
+    assertSpyCalls(fetchUser, 0)
+    assertEquals(await task(), Right(1))
+    assertSpyCalls(fetchUser, 1)
+  },
+})
+
+Deno.test({
+  name: 'TaskEither: map, mapLeft and flatMap',
+  async fn() {
+    const double = TaskEither.map((value: number) => value * 2)
+    const toError = TaskEither.mapLeft((error: string) => new Error(error))
+    const user = TaskEither.flatMap(findUser)
+
+    assertEquals(await double(TaskEither.right(2))(), Right(4))
+    assertEquals(await double(TaskEither.left('error'))(), Left('error'))
+    assertEquals(
+      await toError(TaskEither.left('error'))(),
+      Left(new Error('error')),
+    )
+    assertEquals(await toError(TaskEither.right(2))(), Right(2))
+    assertEquals(await user(TaskEither.right(1))(), Right({ id: 1 }))
+    assertEquals(await user(TaskEither.right(2))(), Left('User not found'))
+    assertEquals(
+      await user(TaskEither.left('Invalid id'))(),
+      Left('Invalid id'),
+    )
+  },
+})
+
+Deno.test({
+  name: 'TaskEither: fold',
+  async fn() {
+    const toStatus = TaskEither.fold(
+      (_error: string) => 404,
+      (_user: { id: number }) => Promise.resolve(200),
+    )
+
+    assertEquals(await toStatus(findUser(1)), 200)
+    assertEquals(await toStatus(findUser(2)), 404)
+  },
+})
@@ -0,0 +1,242 @@
+import { type Either, isLeft, Left, Right } from './either.ts'
+
+/**
+ * Lazy asynchronous Either, nothing runs until the task is called
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Left, Right, TaskEither } from "jsr:@oneday/either";
+ *
+ * const findUser = (id: number): TaskEither<string, { id: number }> => () =>
+ *   Promise.resolve(id === 1 ? Right({ id }) : Left('User not found'));
+ *
+ * assertEquals(await findUser(1)(), Right({ id: 1 }));
+ * assertEquals(await findUser(2)(), Left('User not found'));
+ * ```
+ */
+export type TaskEither<A, B> = () => Promise<Either<A, B>>
+
+/**
+ * TaskEither resolving to a Right
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Right, TaskEither } from "jsr:@oneday/either";
+ *
+ * assertEquals(await TaskEither.right(2)(), Right(2));
+ * ```
+ */
+export function right<B, A = never>(value: B): TaskEither<A, B> {
+  return () => Promise.resolve(Right(value))
+}
+
+/**
+ * TaskEither resolving to a Left
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Left, TaskEither } from "jsr:@oneday/either";
+ *
+ * assertEquals(await TaskEither.left('error')(), Left('error'));
+ * ```
+ */
+export function left<A, B = never>(value: A): TaskEither<A, B> {
+  return () => Promise.resolve(Left(value))
+}
+
+/**
+ * Lift an Either into a TaskEither
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Right, TaskEither } from "jsr:@oneday/either";
+ *
+ * assertEquals(await TaskEither.fromEither(Right(2))(), Right(2));
+ * ```
+ */
+export function fromEither<A, B>(either: Either<A, B>): TaskEither<A, B> {
+  return () => Promise.resolve(either)
+}
+
+/**
+ * Convert a promise into a TaskEither, a rejection or a throw of the function becomes a Left with `onRejected` instead of throwing.
+ * Pass a function returning the promise to keep the TaskEither lazy, an eager promise is settled once and shared by every call.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Left, Right, TaskEither } from "jsr:@oneday/either";
+ *
+ * const resolved = TaskEither.fromPromise(
+ *   () => Promise.resolve(2),
+ *   (reason) => String(reason),
+ * );
+ * const rejected = TaskEither.fromPromise(
+ *   () => Promise.reject(new Error('Network error')),
+ *   (reason) => (reason as Error).message,
+ * );
+ *
+ * assertEquals(await resolved(), Right(2));
+ * assertEquals(await rejected(), Left('Network error'));
+ * ```
+ */
+export function fromPromise<A, B>(
+  promise: PromiseLike<B> | (() => PromiseLike<B>),
+  onRejected: (reason: unknown) => A,
+): TaskEither<A, B> {
+  const settle = (pending: PromiseLike<B>): Promise<Either<A, B>> =>
+    Promise.resolve(pending).then(
+      (value) => Right(value),
+      (reason) => Left(onRejected(reason)),
+    )
+
+  if (typeof promise !== 'function') {
+    // Handle the rejection of an eager promise now, it would be unhandled until the task is called otherwise
+    const settled = settle(promise)
+
+    return () => settled
+  }
+
+  // A synchronous throw of the function is a Left too
+  return () => settle(new Promise<B>((resolve) => resolve(promise())))
+}
+
+/**
+ * Apply a function to the Right value, a Left is returned untouched
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Right, TaskEither } from "jsr:@oneday/either";
+ *
+ * const double = TaskEither.map((value: number) => value * 2);
+ *
+ * assertEquals(await double(TaskEither.right(2))(), Right(4));
+ * ```
+ */
+export function map<B, C>(
+  f: (value: B) => C,
+): <A>(task: TaskEither<A, B>) => TaskEither<A, C> {
+  return (task) => async () => {
+    const either = await task()
+
+    return isLeft(either) ? either : Right(f(either.value))
+  }
+}
+
+/**
+ * Apply a function to the Left value, a Right is returned untouched
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Left, TaskEither } from "jsr:@oneday/either";
+ *
+ * const toError = TaskEither.mapLeft((error: string) => new Error(error));
+ *
+ * assertEquals(await toError(TaskEither.left('error'))(), Left(new Error('error')));
+ * ```
+ */
+export function mapLeft<A, C>(
+  f: (value: A) => C,
+): <B>(task: TaskEither<A, B>) => TaskEither<C, B> {
+  return (task) => async () => {
+    const either = await task()
+
+    return isLeft(either) ? Left(f(either.value)) : either
+  }
+}
+
+/**
+ * Chain a function returning a TaskEither on the Right value, the Left types are merged
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Left, Right, TaskEither } from "jsr:@oneday/either";
+ *
+ * const findUser = (id: number): TaskEither<string, { id: number }> =>
+ *   id === 1 ? TaskEither.right({ id }) : TaskEither.left('User not found');
+ *
+ * assertEquals(await TaskEither.flatMap(findUser)(TaskEither.right(1))(), Right({ id: 1 }));
+ * assertEquals(await TaskEither.flatMap(findUser)(TaskEither.right(2))(), Left('User not found'));
+ * ```
+ */
+export function flatMap<B, C, D>(
+  f: (value: B) => TaskEither<C, D>,
+): <A>(task: TaskEither<A, B>) => TaskEither<A | C, D> {
+  return (task) => async () => {
+    const either = await task()
+
+    return isLeft(either) ? either : f(either.value)()
+  }
+}
+
+/**
+ * Run the TaskEither and reduce the result to a single value, `onLeft` for a Left and `onRight` for a Right
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { TaskEither } from "jsr:@oneday/either";
+ *
+ * const toStatus = TaskEither.fold(
+ *   (_error: string) => 404,
+ *   (_value: number) => 200,
+ * );
+ *
+ * assertEquals(await toStatus(TaskEither.right(2)), 200);
+ * assertEquals(await toStatus(TaskEither.left('Not found')), 404);
+ * ```
+ */
+export function fold<A, B, C, D = C>(
+  onLeft: (value: A) => C | PromiseLike<C>,
+  onRight: (value: B) => D | PromiseLike<D>,
+): (task: TaskEither<A, B>) => Promise<C | D> {
+  return async (task) => {
+    const either = await task()
+
+    return isLeft(either) ? onLeft(either.value) : onRight(either.value)
+  }
+}
+
+/**
+ * TaskEither constructors and combinators
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert/equals';
+ * import { Left, TaskEither } from "jsr:@oneday/either";
+ *
+ * const fetchUser = TaskEither.fromPromise(
+ *   () => Promise.reject(new Error('Network error')),
+ *   (reason) => (reason as Error).message,
+ * );
+ *
+ * assertEquals(await TaskEither.map((user: { id: number }) => user.id)(fetchUser)(), Left('Network error'));
+ * ```
+ */
+export const TaskEither = {
+  right,
+  left,
+  fromEither,
+  fromPromise,
+  map,
+  mapLeft,
+  flatMap,
+  fold,
+}
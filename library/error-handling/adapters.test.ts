@@ -0,0 +1,212 @@
+import { HTTPStatus } from '@oneday/http-status'
+import { assertEquals } from '@std/assert'
+import { assertSpyCalls, spy } from '@std/testing/mock'
+import {
+  AppError,
+  ErrorHandler,
+  errorHandler,
+  honoErrorHandler,
+  koaErrorMiddleware,
+  toErrorResponse,
+  withErrorHandling,
+} from './mod.ts'
+
+const notFound = new AppError(
+  'ResourceNotFound',
+  'User resource not found',
+  true,
+  HTTPStatus.NotFound,
+)
+
+Deno.test({
+  name: 'toErrorResponse: handle the error and respond with problem details',
+  async fn() {
+    // Arrange
+    const observer = spy()
+
+    errorHandler.attach(observer)
+
+    // Act
+    const response = toErrorResponse(notFound, {
+      typeBaseUrl: 'https://example.com/problems/',
+    }, '/users/2')
+
+    errorHandler.detach(observer)
+
+    // Assert
+    assertSpyCalls(observer, 1)
+    assertEquals(response.status, HTTPStatus.NotFound)
+    assertEquals(
+      response.headers.get('content-type'),
+      'application/problem+json',
+    )
+    assertEquals(await response.json(), {
+      type: 'https://example.com/problems/ResourceNotFound',
+      title: 'ResourceNotFound',
+      status: HTTPStatus.NotFound,
+      detail: 'User resource not found',
+      instance: '/users/2',
+    })
+  },
+})
+
+Deno.test({
+  name: 'toErrorResponse: non-operational error is masked',
+  async fn() {
+    const response = toErrorResponse(new TypeError('x is undefined'))
+
+    assertEquals(response.status, HTTPStatus.InternalServerError)
+    assertEquals(await response.json(), {
+      type: 'about:blank',
+      title: 'unknown-error',
+      status: HTTPStatus.InternalServerError,
+      detail: 'technical-error',
+    })
+  },
+})
+
+Deno.test({
+  name: 'toErrorResponse and koaErrorMiddleware: convert the error once',
+  async fn() {
+    // Arrange
+    const handler = new ErrorHandler()
+    const error = new TypeError('x is undefined')
+    const converted: Array<unknown> = []
+    const handled: Array<unknown> = []
+    const context = {
+      request: { url: '/users/2' },
+      response: { status: HTTPStatus.OK, type: '', body: undefined as unknown },
+    }
+
+    using _convertStart = handler.channels.convertStart.subscribe(
+      ({ errorToHandle }) => {
+        converted.push(errorToHandle)
+      },
+    )
+    using _handleError = handler.channels.handleError.subscribe(
+      ({ errorToHandle }) => {
+        handled.push(errorToHandle)
+      },
+    )
+
+    // Act
+    toErrorResponse(error, { errorHandler: handler })
+    await koaErrorMiddleware({ errorHandler: handler })(
+      context,
+      () => Promise.reject(error),
+    )
+
+    // Assert
+    assertEquals(converted, [error, error])
+    assertEquals(handled, [error, error])
+  },
+})
+
+Deno.test({
+  name: 'withErrorHandling: response of the handler',
+  async fn() {
+    const handler = withErrorHandling(() => new Response('OK'))
+
+    const response = await handler(new Request('http://localhost/'), {})
+
+    assertEquals(response.status, HTTPStatus.OK)
+    assertEquals(await response.text(), 'OK')
+  },
+})
+
+Deno.test({
+  name: 'withErrorHandling: thrown error and rejection',
+  async fn() {
+    const throwing = withErrorHandling(() => {
+      throw notFound
+    })
+    const rejecting = withErrorHandling(() => Promise.reject(notFound))
+
+    for (const handler of [throwing, rejecting]) {
+      const response = await handler(
+        new Request('http://localhost/users/2?fields=name'),
+        {},
+      )
+
+      assertEquals(response.status, HTTPStatus.NotFound)
+      assertEquals((await response.json()).instance, '/users/2')
+    }
+  },
+})
+
+Deno.test({
+  name: 'honoErrorHandler: problem details response',
+  async fn() {
+    const onError = honoErrorHandler()
+
+    const response = onError(notFound, { req: { path: '/users/2' } })
+
+    assertEquals(response.status, HTTPStatus.NotFound)
+    assertEquals((await response.json()).instance, '/users/2')
+  },
+})
+
+Deno.test({
+  name: 'koaErrorMiddleware: problem details body',
+  async fn() {
+    const middleware = koaErrorMiddleware()
+    const context = {
+      request: { url: '/users/2?fields=name' },
+      response: { status: HTTPStatus.OK, type: '', body: undefined as unknown },
+    }
+
+    await middleware(context, () => Promise.reject(notFound))
+
+    assertEquals(context.response, {
+      status: HTTPStatus.NotFound,
+      type: 'application/problem+json',
+      body: {
+        type: 'about:blank',
+        title: 'ResourceNotFound',
+        status: HTTPStatus.NotFound,
+        detail: 'User resource not found',
+        instance: '/users/2',
+      },
+    })
+  },
+})
+
+Deno.test({
+  name: 'koaErrorMiddleware: Oak request url',
+  async fn() {
+    const middleware = koaErrorMiddleware()
+    const context = {
+      request: { url: new URL('http://localhost/users/2') },
+      response: { status: HTTPStatus.OK } as {
+        status: number
+        type?: string
+        body?: unknown
+      },
+    }
+
+    await middleware(context, () => {
+      throw notFound
+    })
+
+    assertEquals(context.response.status, HTTPStatus.NotFound)
+    assertEquals(
+      (context.response.body as { instance: string }).instance,
+      '/users/2',
+    )
+  },
+})
+
+Deno.test({
+  name: 'koaErrorMiddleware: next without error',
+  async fn() {
+    const middleware = koaErrorMiddleware()
+    const context = {
+      request: { url: '/' },
+      response: { status: HTTPStatus.OK, body: 'OK' },
+    }
+
+    await middleware(context, () => Promise.resolve())
+
+    assertEquals(context.response, { status: HTTPStatus.OK, body: 'OK' })
+  },
+})
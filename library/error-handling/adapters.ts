@@ -0,0 +1,159 @@
+import {
+  type ErrorHandler,
+  errorHandler,
+  handleToAppError,
+} from './error-handler.ts'
+import {
+  problemContentType,
+  type ProblemDetailsOptions,
+  toProblemDetails,
+  toProblemResponse,
+} from './problem-details.ts'
+
+/**
+ * Options of the framework adapters, the instance of the problem details is the request path
+ */
+export type AdapterOptions = Omit<ProblemDetailsOptions, 'instance'> & {
+  /** handler of the errors, `errorHandler` by default */
+  errorHandler?: ErrorHandler
+}
+
+// The AppError of the handled error, converted again only when the handling failed
+const handleAppError = (handler: ErrorHandler, error: unknown) =>
+  handleToAppError(handler, error) ?? handler.convertUnknownToAppError(error)
+
+/**
+ * Handle an error centrally and build the problem details response,
+ * the building block of the framework adapters
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert';
+ * import { AppError, toErrorResponse } from 'jsr:@oneday/error-handling';
+ * import { HTTPStatus } from 'jsr:@oneday/http-status';
+ *
+ * const response = toErrorResponse(new AppError('resourceNotFound', 'User 2 not found', true, HTTPStatus.NotFound), {}, '/users/2');
+ *
+ * assertEquals(response.status, 404);
+ * assertEquals((await response.json()).instance, '/users/2');
+ * ```
+ */
+export function toErrorResponse(
+  error: unknown,
+  options: Readonly<AdapterOptions> = {},
+  instance?: string,
+): Response {
+  const { errorHandler: handler = errorHandler, ...problemOptions } = options
+  const appError = handleAppError(handler, error)
+
+  return toProblemResponse(appError, { ...problemOptions, instance })
+}
+
+/**
+ * Wrap a `Deno.serve` handler, a thrown error or rejection becomes a problem details response
+ *
+ * # Example
+ *
+ * ```typescript ignore
+ * import { AppError, withErrorHandling } from 'jsr:@oneday/error-handling';
+ * import { HTTPStatus } from 'jsr:@oneday/http-status';
+ *
+ * Deno.serve(
+ *   withErrorHandling((request) => {
+ *     if (new URL(request.url).pathname !== '/healthz') {
+ *       throw new AppError('resourceNotFound', 'Route not found', true, HTTPStatus.NotFound);
+ *     }
+ *
+ *     return new Response('OK');
+ *   }),
+ * );
+ * ```
+ */
+export function withErrorHandling<Info>(
+  handler: (request: Request, info: Info) => Response | Promise<Response>,
+  options?: Readonly<AdapterOptions>,
+): (request: Request, info: Info) => Promise<Response> {
+  return async (request, info) => {
+    try {
+      return await handler(request, info)
+    } catch (error) {
+      return toErrorResponse(error, options, new URL(request.url).pathname)
+    }
+  }
+}
+
+/**
+ * Hono `onError` handler
+ *
+ * # Example
+ *
+ * ```typescript ignore
+ * import * as logger from 'jsr:@std/log';
+ * import { errorHandler, honoErrorHandler } from 'jsr:@oneday/error-handling';
+ * import { Hono } from 'hono';
+ *
+ * // Attach logger to errorHandler
+ * errorHandler.attach(logger.error);
+ *
+ * const app = new Hono();
+ *
+ * app.onError(honoErrorHandler());
+ *
+ * export default app;
+ * ```
+ */
+export function honoErrorHandler(
+  options?: Readonly<AdapterOptions>,
+): (error: Error, context: { req: { path: string } }) => Response {
+  return (error, context) => toErrorResponse(error, options, context.req.path)
+}
+
+/**
+ * Oak or Koa middleware, register it first to catch the errors of the next middlewares
+ *
+ * # Example
+ *
+ * ```typescript ignore
+ * import * as logger from 'jsr:@std/log';
+ * import { errorHandler, koaErrorMiddleware } from 'jsr:@oneday/error-handling';
+ * import Koa from 'npm:koa';
+ *
+ * // Attach logger to errorHandler
+ * errorHandler.attach(logger.error);
+ *
+ * const app = new Koa();
+ *
+ * app.use(koaErrorMiddleware());
+ *
+ * export default app;
+ * ```
+ */
+export function koaErrorMiddleware(
+  options: Readonly<AdapterOptions> = {},
+): (
+  context: {
+    request: { url: string | URL }
+    response: { status: number; type?: string; body?: unknown }
+  },
+  next: () => Promise<unknown>,
+) => Promise<void> {
+  const { errorHandler: handler = errorHandler, ...problemOptions } = options
+
+  return async (context, next) => {
+    try {
+      await next()
+    } catch (error) {
+      const appError = handleAppError(handler, error)
+
+      // The content type first, Koa sets a JSON content type for an object body otherwise
+      context.response.status = appError.HttpStatus
+      context.response.type = problemContentType
+      context.response.body = toProblemDetails(appError, {
+        ...problemOptions,
+        instance:
+          new URL(String(context.request.url), 'http://localhost').pathname,
+      })
+    }
+  }
+}
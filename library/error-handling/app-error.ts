@@ -0,0 +1,121 @@
+import { HTTPStatus } from '@oneday/http-status'
+
+/**
+ * Use only the built-in Error object - centralized error object that derives from Error
+ *
+ * Some libraries throw errors as a string or as some custom type – this complicates the error handling logic and the interoperability between modules.
+ * Instead, create app error object/class that extends the built-in Error object and use it whenever rejecting, throwing or emitting an error.
+ * The app error should add useful imperative properties like the error name/code and isOperational.
+ * By doing so, all errors have a unified structure and support better error handling.
+ *
+ * # Example
+ *
+ * ```typescript ignore
+ * import { AppError } from 'jsr:@oneday/error-handling';
+ * import { HTTPStatus } from "jsr:@oneday/http-status";
+ *
+ * // client throwing an exception
+ * throw new AppError('resourceNotFound', 'further explanation', true, HTTPStatus.NotFound)
+ * ```
+ */
+
+export class AppError extends Error {
+  /**
+   * AppError at the origin of this one, the cause chain ends with the root cause
+   */
+  declare cause?: AppError
+
+  /**
+   * Sub-errors of an aggregated error, e.g. an AggregateError
+   */
+  declare errors?: ReadonlyArray<AppError>
+
+  /**
+   * Snapshot of the request context when the error was converted, see `ErrorHandler.setContextProvider`
+   */
+  declare context?: ErrorContext
+
+  /**
+   * Number of occurrences of the same failure notified at once, see `ErrorHandler.setDeduplicationPolicy`
+   */
+  declare occurrences?: number
+
+  /**
+   * @param name Error Name
+   * @param message further explanation
+   * @param isOperational operational 's error - default false
+   * @param HttpStatus Http status code
+   * @param options cause and aggregated sub-errors
+   */
+  constructor(
+    public override name: string,
+    public override message: string,
+    public isOperational = false,
+    public HttpStatus: HTTPStatus = HTTPStatus.InternalServerError,
+    options: Readonly<AppErrorOptions> = {},
+  ) {
+    super(message)
+
+    Object.setPrototypeOf(this, new.target.prototype) // restore prototype chain
+
+    Error.captureStackTrace(this)
+
+    if (options.cause !== undefined) {
+      this.cause = options.cause
+    }
+
+    if (options.errors !== undefined) {
+      this.errors = options.errors
+    }
+  }
+}
+
+/**
+ * Options of an AppError
+ */
+export type AppErrorOptions = {
+  /** AppError at the origin of the error */
+  cause?: AppError
+  /** sub-errors of an aggregated error */
+  errors?: ReadonlyArray<AppError>
+}
+
+/**
+ * Snapshot of the request context of an error, to correlate the observers and log lines per request
+ */
+export type ErrorContext = {
+  /** Transaction identifier */
+  requestId?: string
+  /** User unique identifier */
+  userId?: string | number
+  metadata?: Readonly<Record<string, unknown>>
+}
+
+/**
+ * The error followed by its causes, from the outermost error to the root cause
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert';
+ * import { AppError, causeChain } from 'jsr:@oneday/error-handling';
+ *
+ * const root = new AppError('ConnectionRefused', 'ECONNREFUSED');
+ * const error = new AppError('UnreachableDB', 'Database unreachable', false, 500, { cause: root });
+ *
+ * assertEquals(causeChain(error).map(({ name }) => name), ['UnreachableDB', 'ConnectionRefused']);
+ * ```
+ */
+export function causeChain(error: AppError): Array<AppError> {
+  const chain: Array<AppError> = []
+
+  for (
+    let current: AppError | undefined = error;
+    current !== undefined && !chain.includes(current);
+    current = current.cause
+  ) {
+    chain.push(current)
+  }
+
+  return chain
+}
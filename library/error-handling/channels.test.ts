@@ -0,0 +1,114 @@
+import { assertEquals, assertStrictEquals } from '@std/assert'
+import { stub } from '@std/testing/mock'
+import diagnostics_channel from 'node:diagnostics_channel'
+import process from 'node:process'
+import { AppError, ErrorHandler, ErrorHandlingChannel } from './mod.ts'
+
+Deno.test({
+  name: 'ErrorHandlingChannel: subscribe returns a disposable',
+  fn() {
+    // Arrange
+    const channel = new ErrorHandlingChannel<{ value: string }>('channels-test')
+    const received: Array<[string, string]> = []
+    const subscription = channel.subscribe(({ value }, name) => {
+      received.push([value, name])
+    })
+
+    // Act
+    channel.publish({ value: 'first' })
+    subscription[Symbol.dispose]()
+    channel.publish({ value: 'second' })
+
+    // Assert
+    assertEquals(received, [['first', 'channels-test']])
+    assertEquals(channel.hasSubscribers, false)
+  },
+})
+
+Deno.test({
+  name: 'ErrorHandlingChannel: same channel as node:diagnostics_channel',
+  fn() {
+    // Arrange
+    const { channels } = new ErrorHandler({ channelPrefix: 'channels-test' })
+    const received: Array<unknown> = []
+    const onMessage = (message: unknown) => {
+      received.push(message)
+    }
+
+    diagnostics_channel.subscribe('channels-test:handleError', onMessage)
+
+    // Act
+    channels.handleError.publish({
+      errorToHandle: 'test',
+      appError: new AppError('test', 'test'),
+    })
+
+    diagnostics_channel.unsubscribe('channels-test:handleError', onMessage)
+
+    // Assert
+    assertEquals(channels.handleError.name, 'channels-test:handleError')
+    assertEquals(received.length, 1)
+  },
+})
+
+Deno.test({
+  name: 'ErrorHandler:channels convertStart and convertEnd',
+  fn() {
+    // Arrange
+    const handler = new ErrorHandler()
+    const error = new Error('test')
+    const steps: Array<string> = []
+    let converted: AppError | undefined
+
+    using _start = handler.channels.convertStart.subscribe(
+      ({ errorToHandle }) => {
+        assertStrictEquals(errorToHandle, error)
+        steps.push('start')
+      },
+    )
+    using _end = handler.channels.convertEnd.subscribe(({ appError }) => {
+      converted = appError
+      steps.push('end')
+    })
+
+    // Act
+    const appError = handler.convertUnknownToAppError(error)
+
+    // Assert
+    assertEquals(steps, ['start', 'end'])
+    assertStrictEquals(converted, appError)
+  },
+})
+
+Deno.test({
+  name: 'ErrorHandler:channels observerError',
+  async fn() {
+    // Arrange
+    using _stdout = stub(process.stdout, 'write')
+
+    const handler = new ErrorHandler()
+    const failure = new Error('Observer failed')
+    const appError = new AppError('ResourceNotFound', 'User not found')
+    const observer = () => Promise.reject(failure)
+    const received: Array<[unknown, AppError, unknown]> = []
+
+    handler.attach(observer)
+
+    using _subscription = handler.channels.observerError.subscribe(
+      (message) => {
+        received.push([
+          message.handlingError,
+          message.appError,
+          message.observer,
+        ])
+      },
+    )
+
+    // Act
+    handler.handleError(appError)
+    await handler.flush()
+
+    // Assert
+    assertEquals(received, [[failure, appError, observer]])
+  },
+})
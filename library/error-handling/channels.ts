@@ -0,0 +1,192 @@
+import diagnostics_channel from 'node:diagnostics_channel'
+import type { AppError } from './app-error.ts'
+import type { Observer } from './error-handler.ts'
+
+/**
+ * Message of the `handleError` channel, published once an error is converted and before the observers are notified
+ */
+export type HandleErrorMessage = {
+  /** original error, redacted with a redaction policy */
+  errorToHandle: unknown
+  appError: AppError
+}
+
+/**
+ * Message of the `error` channel, published when handling an error fails
+ */
+export type HandlingErrorMessage = {
+  handlingError: unknown
+  /** original error or AppError being handled, redacted with a redaction policy */
+  errorToHandle: unknown
+}
+
+/**
+ * Message of the `drop` channel, published when a notification is dropped from the full queue of an async observer
+ */
+export type DropMessage = {
+  appError: AppError
+  observer: Observer
+}
+
+/**
+ * Message of the `convertStart` channel, published before an error is converted
+ */
+export type ConvertStartMessage = {
+  /** original error, redacted with a redaction policy */
+  errorToHandle: unknown
+}
+
+/**
+ * Message of the `convertEnd` channel, published once an error is converted
+ */
+export type ConvertEndMessage = {
+  /** original error, redacted with a redaction policy */
+  errorToHandle: unknown
+  appError: AppError
+}
+
+/**
+ * Message of the `observerError` channel, published when an observer throws or rejects
+ */
+export type ObserverErrorMessage = {
+  handlingError: unknown
+  appError: AppError
+  observer: Observer
+}
+
+/**
+ * Message of the `retry` channel, published on each failed attempt of `withRetry`
+ */
+export type RetryMessage = {
+  /** number of the failed attempt, from 1 */
+  attempt: number
+  appError: AppError
+  /** delay in milliseconds before the next attempt, `undefined` when `withRetry` gives up */
+  delay: number | undefined
+}
+
+/**
+ * State of a circuit breaker
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+/**
+ * Message of the `circuitState` channel, published when a circuit breaker changes state
+ */
+export type CircuitStateMessage = {
+  /** name of the circuit breaker */
+  name: string
+  from: CircuitState
+  to: CircuitState
+  /** failure opening the circuit */
+  appError?: AppError
+}
+
+/**
+ * Diagnostics channel with typed messages
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert';
+ * import { ErrorHandlingChannel } from 'jsr:@oneday/error-handling';
+ *
+ * const channel = new ErrorHandlingChannel<{ count: number }>('example:count');
+ * const counts: Array<number> = [];
+ *
+ * {
+ *   using _subscription = channel.subscribe(({ count }) => {
+ *     counts.push(count);
+ *   });
+ *
+ *   channel.publish({ count: 1 });
+ * }
+ *
+ * channel.publish({ count: 2 });
+ *
+ * assertEquals(counts, [1]);
+ * ```
+ */
+export class ErrorHandlingChannel<Message> {
+  readonly #channel: diagnostics_channel.Channel
+
+  constructor(name: string) {
+    this.#channel = diagnostics_channel.channel(name)
+  }
+
+  /**
+   * Name of the diagnostics channel, e.g. to subscribe with `node:diagnostics_channel`
+   */
+  get name(): string {
+    return String(this.#channel.name)
+  }
+
+  /**
+   * Whether the channel has subscribers, e.g. to skip building an expensive message
+   */
+  get hasSubscribers(): boolean {
+    return this.#channel.hasSubscribers
+  }
+
+  publish(message: Message) {
+    this.#channel.publish(message)
+  }
+
+  /**
+   * Subscribe to the messages, dispose the returned value to unsubscribe
+   */
+  subscribe(
+    onMessage: (message: Message, name: string) => void,
+  ): Disposable {
+    const name = this.name
+    const listener = (message: unknown) => {
+      onMessage(message as Message, name)
+    }
+
+    diagnostics_channel.subscribe(name, listener)
+
+    return {
+      [Symbol.dispose]() {
+        diagnostics_channel.unsubscribe(name, listener)
+      },
+    }
+  }
+}
+
+/**
+ * Diagnostics channels of an ErrorHandler, named `<channel prefix>:<channel>`
+ */
+export type ErrorHandlerChannels = {
+  /** `<prefix>:handleError` */
+  handleError: ErrorHandlingChannel<HandleErrorMessage>
+  /** `<prefix>:error` */
+  error: ErrorHandlingChannel<HandlingErrorMessage>
+  /** `<prefix>:drop` */
+  drop: ErrorHandlingChannel<DropMessage>
+  /** `<prefix>:convertStart` */
+  convertStart: ErrorHandlingChannel<ConvertStartMessage>
+  /** `<prefix>:convertEnd` */
+  convertEnd: ErrorHandlingChannel<ConvertEndMessage>
+  /** `<prefix>:observerError` */
+  observerError: ErrorHandlingChannel<ObserverErrorMessage>
+  /** `<prefix>:retry` */
+  retry: ErrorHandlingChannel<RetryMessage>
+  /** `<prefix>:circuitState` */
+  circuitState: ErrorHandlingChannel<CircuitStateMessage>
+}
+
+/**
+ * Diagnostics channels named after a prefix
+ */
+export function createChannels(prefix: string): ErrorHandlerChannels {
+  return {
+    handleError: new ErrorHandlingChannel(`${prefix}:handleError`),
+    error: new ErrorHandlingChannel(`${prefix}:error`),
+    drop: new ErrorHandlingChannel(`${prefix}:drop`),
+    convertStart: new ErrorHandlingChannel(`${prefix}:convertStart`),
+    convertEnd: new ErrorHandlingChannel(`${prefix}:convertEnd`),
+    observerError: new ErrorHandlingChannel(`${prefix}:observerError`),
+    retry: new ErrorHandlingChannel(`${prefix}:retry`),
+    circuitState: new ErrorHandlingChannel(`${prefix}:circuitState`),
+  }
+}
@@ -0,0 +1,197 @@
+import { HTTPStatus } from '@oneday/http-status'
+import { assertEquals, assertInstanceOf, assertStrictEquals } from '@std/assert'
+import diagnostics_channel from 'node:diagnostics_channel'
+import { AppError, ErrorHandler, isInstanceOf } from './mod.ts'
+
+type PostgresError = { code: string; severity: string; message: string }
+
+const isPostgresError = (error: unknown): error is PostgresError =>
+  typeof error === 'object' && error !== null && 'severity' in error &&
+  'code' in error
+
+Deno.test({
+  name: 'isInstanceOf: matches the instances of a class and its subclasses',
+  fn() {
+    const isError = isInstanceOf(Error)
+
+    assertEquals(isError(new TypeError('x is undefined')), true)
+    assertEquals(isError({ message: 'x is undefined' }), false)
+  },
+})
+
+Deno.test({
+  name: 'ErrorHandler:addConverter converts the matched errors',
+  fn() {
+    // Arrange
+    const handler = new ErrorHandler()
+
+    handler.addConverter(
+      isPostgresError,
+      (error) =>
+        new AppError(
+          'conflict',
+          error.message,
+          true,
+          error.code === '23505' ? HTTPStatus.Conflict : HTTPStatus.BadRequest,
+        ),
+    )
+
+    // Act
+    const appError = handler.convertUnknownToAppError({
+      code: '23505',
+      severity: 'ERROR',
+      message: 'duplicate key value violates unique constraint',
+    })
+    const fallback = handler.convertUnknownToAppError({ code: 'ECONNREFUSED' })
+
+    // Assert
+    assertEquals(appError.name, 'conflict')
+    assertEquals(appError.HttpStatus, HTTPStatus.Conflict)
+    assertEquals(appError.isOperational, true)
+    assertEquals(fallback.name, 'ECONNREFUSED')
+    assertEquals(fallback.HttpStatus, HTTPStatus.InternalServerError)
+  },
+})
+
+Deno.test({
+  name: 'ErrorHandler:addConverter first matching converter in order',
+  fn() {
+    // Arrange
+    const handler = new ErrorHandler()
+
+    handler.addConverter(
+      isInstanceOf(Deno.errors.NotFound),
+      () => new AppError('resourceNotFound', 'Not found', true, 404),
+    )
+    handler.addConverter(
+      isInstanceOf(Error),
+      () => new AppError('error', 'Error'),
+    )
+
+    // Act
+    const appError = handler.convertUnknownToAppError(
+      new Deno.errors.NotFound('No such file'),
+    )
+
+    // Assert
+    assertEquals(appError.name, 'resourceNotFound')
+  },
+})
+
+Deno.test({
+  name: 'ErrorHandler:addConverter converts the causes',
+  fn() {
+    // Arrange
+    const handler = new ErrorHandler()
+    const cause = new Deno.errors.TimedOut('Timed out')
+    const timeout = new AppError('timeout', 'Timed out', true, 504)
+
+    handler.addConverter(isInstanceOf(Deno.errors.TimedOut), () => timeout)
+
+    // Act
+    const appError = handler.convertUnknownToAppError(
+      new Error('Request failed', { cause }),
+    )
+
+    // Assert
+    assertStrictEquals(appError.cause, timeout)
+  },
+})
+
+Deno.test({
+  name: 'ErrorHandler:addConverter redacts a copy and converts its cause',
+  fn() {
+    // Arrange
+    const handler = new ErrorHandler()
+    const returned: Array<AppError> = []
+    const error = {
+      code: '08006',
+      severity: 'FATAL',
+      message: 'Cannot connect to postgres://admin:s3cr3t@db/app',
+    }
+
+    handler.setRedactionPolicy({})
+    handler.addConverter(isPostgresError, (error) => {
+      const appError = Object.assign(
+        new AppError('databaseError', error.message, false, 503, {
+          cause: error as unknown as AppError,
+        }),
+        { config: { password: 's3cr3t' } },
+      )
+
+      returned.push(appError)
+
+      return appError
+    })
+
+    // Act
+    const appError = handler.convertUnknownToAppError(error)
+
+    // Assert
+    assertEquals(
+      appError.message,
+      'Cannot connect to postgres://[REDACTED]db/app',
+    )
+    assertEquals(appError.stack?.includes('s3cr3t'), false)
+    assertEquals(Reflect.get(appError, 'config'), { password: '[REDACTED]' })
+    assertInstanceOf(appError.cause, AppError)
+    assertEquals(appError.cause.name, '08006')
+    assertEquals(appError.cause.message, appError.message)
+    assertStrictEquals(returned[0].cause, error as unknown as AppError)
+    assertEquals(returned[0].message, error.message)
+  },
+})
+
+Deno.test({
+  name: 'ErrorHandler:addConverter skips a failing converter',
+  fn() {
+    // Arrange
+    const messages: Array<unknown> = []
+    const onMessage = (message: unknown) => {
+      messages.push((message as { handlingError: unknown }).handlingError)
+    }
+    const failure = new Error('Converter failed')
+    const handler = new ErrorHandler({ channelPrefix: 'converters-test' })
+
+    handler.addConverter(isInstanceOf(Error), () => {
+      throw failure
+    })
+
+    diagnostics_channel.subscribe('converters-test:error', onMessage)
+
+    // Act
+    const appError = handler.convertUnknownToAppError(new TypeError('test'))
+
+    diagnostics_channel.unsubscribe('converters-test:error', onMessage)
+
+    // Assert
+    assertEquals(appError.name, 'TypeError')
+    assertEquals(messages, [failure])
+  },
+})
+
+Deno.test({
+  name: 'ErrorHandler:removeConverter and derive',
+  fn() {
+    // Arrange
+    const parent = new ErrorHandler()
+    const convert = () => new AppError('converted', 'Converted', true)
+
+    parent.addConverter(isInstanceOf(TypeError), convert)
+
+    const child = parent.derive()
+
+    // Act
+    parent.removeConverter(convert)
+
+    // Assert
+    assertEquals(
+      child.convertUnknownToAppError(new TypeError('x')).name,
+      'converted',
+    )
+    assertEquals(
+      parent.convertUnknownToAppError(new TypeError('x')).name,
+      'TypeError',
+    )
+  },
+})
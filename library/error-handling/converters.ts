@@ -0,0 +1,32 @@
+import type { AppError } from './app-error.ts'
+
+/**
+ * Predicate matching the errors of a converter, an `instanceof` check with `isInstanceOf` or a check of their shape
+ */
+export type ErrorMatcher<E> = (error: unknown) => error is E
+
+/**
+ * Conversion of a matched error into an AppError with its name, message, HTTP status and operational flag
+ */
+export type ErrorConverter<E> = (error: E) => AppError
+
+/**
+ * Matcher of the instances of a class, e.g. `Deno.errors.NotFound`
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert';
+ * import { isInstanceOf } from 'jsr:@oneday/error-handling';
+ *
+ * const isRangeError = isInstanceOf(RangeError);
+ *
+ * assertEquals(isRangeError(new RangeError('Invalid array length')), true);
+ * assertEquals(isRangeError(new TypeError('x is undefined')), false);
+ * ```
+ */
+export function isInstanceOf<E>(
+  type: abstract new (...args: never[]) => E,
+): ErrorMatcher<E> {
+  return (error): error is E => error instanceof type
+}
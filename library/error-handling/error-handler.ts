@@ -0,0 +1,1163 @@
+import { HTTPStatus } from '@oneday/http-status'
+import { inspect } from 'node:util'
+import process from 'node:process'
+import { AppError, type ErrorContext } from './app-error.ts'
+import { createChannels, type ErrorHandlerChannels } from './channels.ts'
+import type { ErrorConverter, ErrorMatcher } from './converters.ts'
+import { fingerprint } from './fingerprint.ts'
+import { redact, type RedactionPolicy, redactProperties } from './redaction.ts'
+
+export type Observer = (value: AppError) => void | Promise<void>
+
+/**
+ * Snapshot of the current request context, `undefined` outside of a request
+ */
+export type ContextProvider = () => ErrorContext | undefined
+
+/**
+ * Bounded queue of the notifications waiting for a busy async observer
+ */
+export type QueuePolicy = {
+  /** maximum number of waiting notifications per observer, 100 by default */
+  maxSize?: number
+  /** notification dropped when the queue is full, the incoming one (`newest`) by default */
+  drop?: 'newest' | 'oldest'
+}
+
+/**
+ * Deduplication and rate limit of the notifications of the same failure, identified by its fingerprint
+ */
+export type DeduplicationPolicy = {
+  /** sliding window in milliseconds */
+  window: number
+  /** notifications per fingerprint within the window, 1 by default */
+  limit?: number
+}
+
+type Occurrences = {
+  notifiedAt: Array<number>
+  suppressed: number
+  latest?: AppError
+  timer?: ReturnType<typeof setTimeout>
+}
+
+type Conversion = {
+  match: (error: unknown) => boolean
+  convert: ErrorConverter<unknown>
+}
+
+type Lane = {
+  queue: Array<AppError>
+  done: Promise<void>
+}
+
+/**
+ * Shutdown hook run before the process crashes, e.g. close the server or the database connections
+ */
+export type ShutdownHook = (error: AppError) => void | Promise<void>
+
+/**
+ * Crash policy on a non-operational error
+ */
+export type CrashPolicy = {
+  /** exit code, 1 by default */
+  exitCode?: number
+  /** maximum duration of the shutdown hooks in milliseconds, 10000 by default */
+  timeout?: number
+  /** exit function, `process.exit` by default: when a custom one throws, the failure is published on the error channel and the process keeps running */
+  exit?: (code: number) => void
+}
+
+// Shallow copy of an AppError with its class, message and stack, the instance of the caller is never modified
+function copyOf<E extends AppError>(
+  appError: E,
+  properties: Readonly<Partial<AppError>>,
+): E {
+  const copy: E = Object.create(Object.getPrototypeOf(appError))
+
+  Object.defineProperties(copy, Object.getOwnPropertyDescriptors(appError))
+  // The stack accessor of V8 only works on the original error
+  Object.defineProperty(copy, 'stack', {
+    value: appError.stack,
+    writable: true,
+    configurable: true,
+  })
+
+  return Object.assign(copy, properties)
+}
+
+// A pending notification never keeps the process alive
+function unrefTimer(timer: ReturnType<typeof setTimeout>) {
+  if (typeof timer === 'number') {
+    if ('Deno' in globalThis) {
+      Deno.unrefTimer(timer)
+    }
+
+    return
+  }
+
+  const handle: { unref?: () => void } = timer
+
+  handle.unref?.()
+}
+
+// Number of the handlers created, it names the channels of a handler without a channel prefix
+let handlerCount = 0
+
+// Set once the class is defined, it reaches the private handling of a handler
+let handleWith: (
+  handler: ErrorHandler,
+  errorToHandle: unknown,
+) => AppError | undefined
+
+/**
+ * Handle an error and return its AppError, `undefined` when the handling fails.
+ * The adapters respond with the AppError without converting the error twice.
+ */
+export function handleToAppError(
+  handler: ErrorHandler,
+  errorToHandle: unknown,
+): AppError | undefined {
+  return handleWith(handler, errorToHandle)
+}
+
+/**
+ * Options of `installGlobalHandlers`
+ */
+export type GlobalHandlersOptions = {
+  /** prevent the default behaviour (log and exit) once the error is handled, only with a crash policy by default */
+  preventDefault?: boolean
+}
+
+/**
+ * Options of a new ErrorHandler
+ */
+export type ErrorHandlerOptions = {
+  /** parent handler, its policies are copied and the notifications are forwarded to its observers */
+  parent?: ErrorHandler
+  /** prefix of the diagnostics channels, a unique `error-handling-<n>` prefix by default */
+  channelPrefix?: string
+}
+
+/**
+ * Central error handler. `errorHandler` is the default instance,
+ * a new or derived instance has its own observers and policies, e.g. in tests or per tenant.
+ * Its diagnostics channels are its own, `errorHandler` alone publishes on the `error-handling` channels.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert';
+ * import { AppError, ErrorHandler } from 'jsr:@oneday/error-handling';
+ *
+ * const received: Array<string> = [];
+ * const handler = new ErrorHandler();
+ *
+ * handler.attach((error) => {
+ *   received.push(error.name);
+ * });
+ * handler.handleError(new AppError('resourceNotFound', 'User 2 not found', true, 404));
+ *
+ * assertEquals(received, ['resourceNotFound']);
+ * ```
+ */
+export class ErrorHandler {
+  static #instance: ErrorHandler
+  #parent: ErrorHandler | undefined
+  #observers: Array<Observer> = []
+  #lanes: Map<Observer, Lane> = new Map()
+  #queuePolicy: Readonly<QueuePolicy> = {}
+  #contextProvider: ContextProvider | undefined
+  #deduplicationPolicy: Readonly<DeduplicationPolicy> | undefined
+  #occurrences: Map<string, Occurrences> = new Map()
+  #shutdownHooks: Array<ShutdownHook> = []
+  #crashPolicy: CrashPolicy | undefined
+  #crashing: Promise<void> | undefined
+  #redactionPolicy: Readonly<RedactionPolicy> | undefined
+  #conversions: Array<Conversion> = []
+  /** typed diagnostics channels of this handler */
+  readonly channels: ErrorHandlerChannels
+
+  constructor(options: Readonly<ErrorHandlerOptions> = {}) {
+    const { parent } = options
+
+    this.#parent = parent
+    this.channels = createChannels(
+      options.channelPrefix ?? `error-handling-${++handlerCount}`,
+    )
+
+    if (parent !== undefined) {
+      this.#queuePolicy = parent.#queuePolicy
+      this.#contextProvider = parent.#contextProvider
+      this.#deduplicationPolicy = parent.#deduplicationPolicy
+      this.#shutdownHooks = [...parent.#shutdownHooks]
+      this.#crashPolicy = parent.#crashPolicy
+      this.#redactionPolicy = parent.#redactionPolicy
+      this.#conversions = [...parent.#conversions]
+    }
+
+    // The methods keep working detached, e.g. `promise.catch(errorHandler.handleError)`
+    this.handleError = this.handleError.bind(this)
+    this.convertUnknownToAppError = this.convertUnknownToAppError.bind(this)
+    this.flush = this.flush.bind(this)
+  }
+
+  /**
+   * Default instance, `errorHandler`
+   */
+  static {
+    handleWith = (handler, errorToHandle) => handler.#handle(errorToHandle)
+  }
+
+  static getInstance(): ErrorHandler {
+    if (!ErrorHandler.#instance) {
+      ErrorHandler.#instance = new ErrorHandler({
+        channelPrefix: 'error-handling',
+      })
+    }
+
+    return ErrorHandler.#instance
+  }
+
+  /**
+   * New handler starting with the policies, the shutdown hooks and the converters of this one, then configured independently.
+   * It has its own observers and forwards its notifications to the observers of this handler.
+   *
+   * # Example
+   *
+   * ```ts
+   * import { assertEquals } from 'jsr:@std/assert';
+   * import { AppError, errorHandler } from 'jsr:@oneday/error-handling';
+   *
+   * const received: Array<string> = [];
+   * const tenant = errorHandler.derive();
+   *
+   * tenant.attach((error) => {
+   *   received.push(`tenant ${error.name}`);
+   * });
+   * tenant.handleError(new AppError('resourceNotFound', 'User 2 not found', true, 404));
+   *
+   * assertEquals(received, ['tenant resourceNotFound']);
+   * ```
+   */
+  derive(
+    options: Readonly<Omit<ErrorHandlerOptions, 'parent'>> = {},
+  ): ErrorHandler {
+    return new ErrorHandler({ ...options, parent: this })
+  }
+
+  /**
+   * # Example
+   *
+   * ```ts
+   * import * as logger from 'jsr:@std/log';
+   * import { errorHandler } from 'jsr:@oneday/error-handling';
+   *
+   * errorHandler.attach(logger.error)
+   * ```
+   */
+  attach(func: Observer) {
+    if (typeof func !== 'function' || this.#observers.includes(func)) {
+      return
+    }
+
+    this.#observers.push(func)
+  }
+
+  /**
+   * # Example
+   *
+   * ```ts
+   * import * as logger from 'jsr:@std/log';
+   * import { errorHandler } from 'jsr:@oneday/error-handling';
+   *
+   * errorHandler.detach(logger.error)
+   * ```
+   */
+  detach(func: Observer) {
+    this.#observers = this.#observers.filter((observer) => observer !== func)
+
+    // Drop the notifications waiting for the detached observer
+    this.#lanes.get(func)?.queue.splice(0)
+  }
+
+  /**
+   * # Example
+   *
+   * ```typescript ignore
+   * import * as logger from 'jsr:@std/log';
+   * import { errorHandler } from 'jsr:@oneday/error-handling';
+   *
+   * errorHandler.attach(logger.error)
+   *
+   * errorHandler.notify(new AppError('resourceNotFound','further explanation'))
+   *
+   * // stdout: ERROR resourceNotFound: further explanation
+   * ```
+   */
+  notify(data: AppError) {
+    for (const observer of this.#observers) {
+      this.#deliver(observer, data)
+    }
+
+    this.#parent?.notify(data)
+  }
+
+  /**
+   * Size and drop policy of the queue of each async observer
+   *
+   * # Example
+   *
+   * ```ts
+   * import { errorHandler } from 'jsr:@oneday/error-handling';
+   *
+   * errorHandler.setQueuePolicy({ maxSize: 1000, drop: 'oldest' })
+   * ```
+   */
+  setQueuePolicy(policy: Readonly<QueuePolicy>) {
+    this.#queuePolicy = policy
+  }
+
+  /**
+   * Notify the suppressed occurrences and wait for the async observers, the ones of the parent included, to process every notification, e.g. before a graceful shutdown
+   *
+   * # Example
+   *
+   * ```ts
+   * import { errorHandler } from 'jsr:@oneday/error-handling';
+   *
+   * await errorHandler.flush()
+   * ```
+   */
+  async flush(): Promise<void> {
+    this.#notifySuppressed()
+
+    while (this.#lanes.size > 0) {
+      await Promise.all(
+        Array.from(this.#lanes.values(), ({ done }) => done),
+      )
+    }
+
+    // The forwarded notifications wait in the lanes of the parent
+    await this.#parent?.flush()
+  }
+
+  /**
+   * Notify the occurrences of a fingerprint at most `limit` times within a sliding `window`,
+   * the suppressed occurrences are notified once the window slides, as a copy of the latest one with their count in `occurrences`.
+   * The pending notifications never keep the process alive, replacing the policy or `undefined` notifies them at once.
+   *
+   * # Example
+   *
+   * ```ts
+   * import { errorHandler } from 'jsr:@oneday/error-handling';
+   *
+   * errorHandler.setDeduplicationPolicy({ window: 60_000, limit: 10 })
+   * ```
+   */
+  setDeduplicationPolicy(policy: Readonly<DeduplicationPolicy> | undefined) {
+    this.#notifySuppressed()
+    this.#occurrences.clear()
+    this.#deduplicationPolicy = policy
+  }
+
+  #deduplicate(appError: AppError, policy: Readonly<DeduplicationPolicy>) {
+    const { window, limit = 1 } = policy
+    const now = Date.now()
+    const key = fingerprint(appError)
+    let occurrences = this.#occurrences.get(key)
+
+    if (occurrences === undefined) {
+      // Forget the fingerprints without notification in the window
+      for (const [staleKey, stale] of this.#occurrences) {
+        if (
+          stale.suppressed === 0 &&
+          stale.notifiedAt.every((notifiedAt) => notifiedAt <= now - window)
+        ) {
+          this.#occurrences.delete(staleKey)
+        }
+      }
+
+      occurrences = { notifiedAt: [], suppressed: 0 }
+      this.#occurrences.set(key, occurrences)
+    }
+
+    occurrences.notifiedAt = occurrences.notifiedAt.filter((notifiedAt) =>
+      notifiedAt > now - window
+    )
+
+    if (occurrences.suppressed === 0 && occurrences.notifiedAt.length < limit) {
+      occurrences.notifiedAt.push(now)
+      this.notify(appError)
+
+      return
+    }
+
+    occurrences.suppressed++
+    occurrences.latest = appError
+    if (occurrences.timer === undefined) {
+      occurrences.timer = setTimeout(
+        () => this.#notifySuppressed(key),
+        Math.max(0, (occurrences.notifiedAt[0] ?? now) + window - now),
+      )
+
+      unrefTimer(occurrences.timer)
+    }
+  }
+
+  // Notify the latest suppressed occurrence with the number of suppressed occurrences
+  #notifySuppressed(key?: string) {
+    for (const [fingerprint, occurrences] of this.#occurrences) {
+      if (key !== undefined && key !== fingerprint) {
+        continue
+      }
+
+      clearTimeout(occurrences.timer)
+      occurrences.timer = undefined
+
+      if (occurrences.latest === undefined) {
+        continue
+      }
+
+      // A copy, the count belongs to this notification only
+      const latest = copyOf(occurrences.latest, {
+        occurrences: occurrences.suppressed,
+      })
+
+      occurrences.notifiedAt.push(Date.now())
+
+      occurrences.latest = undefined
+      occurrences.suppressed = 0
+
+      this.notify(latest)
+    }
+  }
+
+  // An observer gets the notifications one at a time, the next ones wait while a promise is pending
+  #deliver(observer: Observer, data: AppError) {
+    const lane = this.#lanes.get(observer)
+
+    if (lane !== undefined) {
+      const { maxSize = 100, drop = 'newest' } = this.#queuePolicy
+
+      if (lane.queue.length < maxSize) {
+        lane.queue.push(data)
+      } else if (drop === 'oldest') {
+        const dropped = lane.queue.shift()
+
+        if (dropped !== undefined) {
+          this.channels.drop.publish({ appError: dropped, observer })
+        }
+
+        lane.queue.push(data)
+      } else {
+        this.channels.drop.publish({ appError: data, observer })
+      }
+
+      return
+    }
+
+    const pending = this.#call(observer, data)
+
+    if (pending === undefined) {
+      return
+    }
+
+    const queue: Array<AppError> = []
+
+    this.#lanes.set(observer, {
+      queue,
+      done: (async () => {
+        await pending
+
+        for (let next = queue.shift(); next; next = queue.shift()) {
+          await this.#call(observer, next)
+        }
+
+        this.#lanes.delete(observer)
+      })(),
+    })
+  }
+
+  // Isolate each observer, a failure never reaches the other observers
+  #call(observer: Observer, data: AppError): Promise<void> | undefined {
+    try {
+      const result = observer(data)
+
+      return result instanceof Promise
+        ? result.catch((observerError) =>
+          this.#observerFailed(observerError, data, observer)
+        )
+        : undefined
+    } catch (observerError) {
+      this.#observerFailed(observerError, data, observer)
+
+      return undefined
+    }
+  }
+
+  #observerFailed(
+    handlingError: unknown,
+    appError: AppError,
+    observer: Observer,
+  ) {
+    this.channels.observerError.publish({ handlingError, appError, observer })
+    this.channels.error.publish({ handlingError, errorToHandle: appError })
+
+    process.stdout.write('Error observer failed')
+    process.stdout.write(inspect(handlingError))
+  }
+
+  /**
+   * Crash the process on a non-operational error: run the shutdown hooks, flush the observers, then exit.
+   * The crash is disabled by default, `undefined` disables it again.
+   *
+   * # Example
+   *
+   * ```typescript ignore
+   * import { errorHandler } from 'jsr:@oneday/error-handling';
+   *
+   * errorHandler.setCrashPolicy({ exitCode: 1, timeout: 5000 })
+   * ```
+   */
+  setCrashPolicy(policy: Readonly<CrashPolicy> | undefined) {
+    this.#crashPolicy = policy
+  }
+
+  /**
+   * Register a hook run before the process crashes, the hooks run concurrently
+   *
+   * # Example
+   *
+   * ```typescript ignore
+   * import { errorHandler } from 'jsr:@oneday/error-handling';
+   *
+   * const server = Deno.serve(handler)
+   *
+   * errorHandler.addShutdownHook(() => server.shutdown())
+   * ```
+   */
+  addShutdownHook(hook: ShutdownHook) {
+    if (
+      typeof hook !== 'function' ||
+      this.#shutdownHooks.includes(hook)
+    ) {
+      return
+    }
+
+    this.#shutdownHooks.push(hook)
+  }
+
+  /**
+   * Unregister a shutdown hook
+   */
+  removeShutdownHook(hook: ShutdownHook) {
+    this.#shutdownHooks = this.#shutdownHooks.filter((shutdownHook) =>
+      shutdownHook !== hook
+    )
+  }
+
+  /**
+   * Run the shutdown hooks and flush the observers within the timeout of the crash policy then exit, a crash in progress is returned
+   */
+  crash(appError: AppError): Promise<void> {
+    if (this.#crashing === undefined) {
+      this.#crashing = this.#shutdown(
+        appError,
+        this.#crashPolicy ?? {},
+      ).finally(() => {
+        // Only reached with an exit function which returns
+        this.#crashing = undefined
+      })
+    }
+
+    return this.#crashing
+  }
+
+  async #shutdown(
+    appError: AppError,
+    policy: Readonly<CrashPolicy>,
+  ): Promise<void> {
+    const {
+      exitCode = 1,
+      timeout = 10_000,
+      exit = (code: number) => process.exit(code),
+    } = policy
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const hooks = Promise.allSettled(
+      this.#shutdownHooks.map(async (hook) => await hook(appError)),
+    ).then((results) => {
+      for (const result of results) {
+        if (result.status === 'rejected') {
+          this.channels.error.publish({
+            handlingError: result.reason,
+            errorToHandle: appError,
+          })
+        }
+      }
+    })
+
+    await Promise.race([
+      hooks.then(() => this.flush()),
+      new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, timeout)
+      }),
+    ])
+
+    clearTimeout(timer)
+
+    exit(exitCode)
+  }
+
+  /**
+   * Handle the uncaught exceptions and unhandled rejections: the `error` and `unhandledrejection` events with Deno,
+   * the `uncaughtException` and `unhandledRejection` process events with Node.
+   * By default, the process keeps running only with a crash policy, which exits on a non-operational error;
+   * otherwise the error is logged and the process exits as without the handlers. With Node, the handler logs the error and exits with code 1.
+   * Dispose the returned value to remove the handlers.
+   *
+   * # Example
+   *
+   * ```ts
+   * import { errorHandler } from 'jsr:@oneday/error-handling';
+   *
+   * using _globalHandlers = errorHandler.installGlobalHandlers();
+   * ```
+   */
+  installGlobalHandlers(
+    options: Readonly<GlobalHandlersOptions> = {},
+  ): Disposable {
+    const { preventDefault } = options
+    // Read on each error, the crash policy may be set after the handlers
+    const prevents = () => preventDefault ?? this.#crashPolicy !== undefined
+
+    if (!('Deno' in globalThis)) {
+      const onError = (error: unknown) => {
+        this.handleError(error)
+
+        // A listener keeps Node running, the default behaviour is restored
+        if (!prevents()) {
+          process.stderr.write(`${inspect(error)}\n`)
+          process.exit(1)
+        }
+      }
+
+      process.on('uncaughtException', onError)
+      process.on('unhandledRejection', onError)
+
+      return {
+        [Symbol.dispose]() {
+          process.off('uncaughtException', onError)
+          process.off('unhandledRejection', onError)
+        },
+      }
+    }
+
+    const onError = (event: ErrorEvent) => {
+      this.handleError(event.error)
+
+      if (prevents()) {
+        event.preventDefault()
+      }
+    }
+
+    const onUnhandledRejection = (event: PromiseRejectionEvent) => {
+      this.handleError(event.reason)
+
+      if (prevents()) {
+        event.preventDefault()
+      }
+    }
+
+    globalThis.addEventListener('error', onError)
+    globalThis.addEventListener('unhandledrejection', onUnhandledRejection)
+
+    return {
+      [Symbol.dispose]() {
+        globalThis.removeEventListener('error', onError)
+        globalThis.removeEventListener(
+          'unhandledrejection',
+          onUnhandledRejection,
+        )
+      },
+    }
+  }
+
+  /**
+   * Enrich each converted AppError with the current request context, `undefined` disables it again.
+   * `@oneday/error-handling/global-context` provides the context of `@oneday/global-context`.
+   *
+   * # Example
+   *
+   * ```ts
+   * import { assertEquals } from 'jsr:@std/assert';
+   * import { errorHandler } from 'jsr:@oneday/error-handling';
+   *
+   * errorHandler.setContextProvider(() => ({ requestId: '1234' }));
+   *
+   * assertEquals(errorHandler.convertUnknownToAppError(new Error('test')).context, { requestId: '1234' });
+   *
+   * errorHandler.setContextProvider(undefined);
+   * ```
+   */
+  setContextProvider(provider: ContextProvider | undefined) {
+    this.#contextProvider = provider
+  }
+
+  /**
+   * Redact the sensitive data of the converted errors, e.g. headers, tokens or connection strings,
+   * before the observers and the diagnostics channels see them. The channels get the redacted original error.
+   * A handled AppError is redacted too, on a copy.
+   * `{}` applies the default policy, `undefined` disables it again.
+   *
+   * # Example
+   *
+   * ```ts
+   * import { assertEquals } from 'jsr:@std/assert';
+   * import { errorHandler } from 'jsr:@oneday/error-handling';
+   *
+   * errorHandler.setRedactionPolicy({ keys: ['x-api-key'], maxStringLength: 200 });
+   *
+   * const appError = errorHandler.convertUnknownToAppError({
+   *   message: 'Request failed',
+   *   headers: { 'x-api-key': '1234', accept: 'application/json' },
+   * });
+   *
+   * assertEquals(Reflect.get(appError, 'headers'), { 'x-api-key': '[REDACTED]', accept: 'application/json' });
+   *
+   * errorHandler.setRedactionPolicy(undefined);
+   * ```
+   */
+  setRedactionPolicy(policy: Readonly<RedactionPolicy> | undefined) {
+    this.#redactionPolicy = policy
+  }
+
+  // The original error as the diagnostics channels may see it
+  #redacted(errorToHandle: unknown): unknown {
+    const policy = this.#redactionPolicy
+
+    if (policy === undefined) {
+      return errorToHandle
+    }
+
+    return errorToHandle instanceof AppError
+      ? this.#completeConversion(errorToHandle, errorToHandle, new WeakSet())
+      : redact(errorToHandle, policy)
+  }
+
+  /**
+   * Register a converter of the matched errors, the converters are tried in registration order before the generic conversion.
+   * A converter which throws is skipped and its error published on the error channel.
+   * Like the generic conversion, a copy of the returned AppError is redacted with the redaction policy and its cause and sub-errors are converted.
+   *
+   * # Example
+   *
+   * ```ts
+   * import { assertEquals } from 'jsr:@std/assert';
+   * import { AppError, errorHandler, isInstanceOf } from 'jsr:@oneday/error-handling';
+   * import { HTTPStatus } from 'jsr:@oneday/http-status';
+   *
+   * const notFound = (error: Deno.errors.NotFound) =>
+   *   new AppError('resourceNotFound', error.message, true, HTTPStatus.NotFound);
+   *
+   * errorHandler.addConverter(isInstanceOf(Deno.errors.NotFound), notFound);
+   *
+   * assertEquals(errorHandler.convertUnknownToAppError(new Deno.errors.NotFound('No such file')).HttpStatus, 404);
+   *
+   * errorHandler.removeConverter(notFound);
+   * ```
+   */
+  addConverter<E>(match: ErrorMatcher<E>, convert: ErrorConverter<E>): void
+  addConverter(
+    match: (error: unknown) => boolean,
+    convert: ErrorConverter<unknown>,
+  ): void
+  addConverter(
+    match: (error: unknown) => boolean,
+    convert: ErrorConverter<never>,
+  ): void {
+    if (
+      typeof match !== 'function' || typeof convert !== 'function' ||
+      this.#conversions.some((conversion) => conversion.convert === convert)
+    ) {
+      return
+    }
+
+    this.#conversions.push({
+      match,
+      convert: convert as ErrorConverter<unknown>,
+    })
+  }
+
+  /**
+   * Unregister a converter
+   */
+  removeConverter(convert: ErrorConverter<never>) {
+    this.#conversions = this.#conversions.filter((conversion) =>
+      conversion.convert !== convert
+    )
+  }
+
+  // AppError of the first matching converter
+  #applyConverters(errorToHandle: unknown): AppError | undefined {
+    for (const { match, convert } of this.#conversions) {
+      try {
+        if (match(errorToHandle)) {
+          return convert(errorToHandle)
+        }
+      } catch (handlingError) {
+        this.channels.error.publish({
+          handlingError,
+          errorToHandle: this.#redacted(errorToHandle),
+        })
+      }
+    }
+
+    return undefined
+  }
+
+  // Redact an AppError, of the caller or of a converter, and convert its cause and sub-errors, on a copy since the instance may be shared
+  #completeConversion(
+    appError: AppError,
+    errorToHandle: unknown,
+    ancestors: WeakSet<object>,
+  ): AppError {
+    const policy = this.#redactionPolicy
+    const { cause, errors }: {
+      cause?: unknown
+      errors?: ReadonlyArray<unknown>
+    } = appError
+    // With a policy, the AppError of the chain are redacted too
+    const converts = (error: unknown) =>
+      error !== undefined &&
+      (policy !== undefined || !(error instanceof AppError))
+    const convertsCause = converts(cause)
+    const convertsErrors = errors !== undefined && errors.some(converts)
+
+    if (policy === undefined && !convertsCause && !convertsErrors) {
+      return appError
+    }
+
+    ancestors.add(appError)
+
+    const isAncestor = (error: unknown) =>
+      typeof error === 'object' && error !== null && ancestors.has(error)
+    const properties: Partial<AppError> = policy === undefined ? {} : {
+      ...redactProperties(appError, policy) as Partial<AppError>,
+      message: redact(appError.message, policy) as string,
+      // The stack is never truncated
+      stack: redact(appError.stack, { ...policy, maxStringLength: Infinity }) as
+        | string
+        | undefined,
+      ...(appError.cause === undefined ? {} : { cause: appError.cause }),
+      ...(appError.errors === undefined ? {} : { errors: appError.errors }),
+    }
+
+    // The original error kept as the cause never goes through the converters again
+    if (convertsCause) {
+      properties.cause = cause === errorToHandle && cause !== appError
+        ? this.#convertGeneric(cause, ancestors)
+        : isAncestor(cause)
+        ? undefined
+        : this.#convert(cause, ancestors)
+    }
+
+    if (convertsErrors) {
+      properties.errors = errors
+        .filter((error) => !isAncestor(error))
+        .map((error) => this.#convert(error, ancestors))
+    }
+
+    ancestors.delete(appError)
+
+    return copyOf(appError, properties)
+  }
+
+  #getObjectIfNotAlreadyObject(target: unknown): object {
+    if (typeof target === 'string') {
+      return {
+        message: target,
+      }
+    }
+
+    if (typeof target === 'object' && target !== null) {
+      return target
+    }
+
+    return {}
+  }
+
+  #getOneOfTheseProperties = <ReturnType>(
+    object: Readonly<object>,
+    possibleExistingProperties: Readonly<string[]>,
+    defaultValue: ReturnType,
+  ): ReturnType => {
+    for (const property of possibleExistingProperties) {
+      if (property in object) {
+        return Reflect.get(object, property)
+      }
+    }
+
+    return defaultValue
+  }
+
+  /**
+   * Convert unknown to AppError with the first matching converter, otherwise with the generic conversion
+   * which converts the `cause` chain and the sub-errors of an AggregateError recursively.
+   * With a context provider, an AppError without context is copied with the current request context.
+   *
+   * # Example
+   *
+   * ```ts
+   * import { assertEquals, assertInstanceOf } from 'jsr:@std/assert';
+   * import { errorHandler, AppError } from 'jsr:@oneday/error-handling';
+   *
+   * assertInstanceOf(errorHandler.convertUnknownToAppError(new Error('test')), AppError);
+   * assertInstanceOf(errorHandler.convertUnknownToAppError({ message: 'further explanation'}), AppError);
+   * assertInstanceOf(errorHandler.convertUnknownToAppError('I am a string'), AppError);
+   *
+   * const appError = errorHandler.convertUnknownToAppError(
+   *   new Error('Database unreachable', { cause: new Error('ECONNREFUSED') }),
+   * );
+   *
+   * assertInstanceOf(appError.cause, AppError);
+   * assertEquals(appError.cause.message, 'ECONNREFUSED');
+   * ```
+   */
+  convertUnknownToAppError(
+    errorToHandle: unknown,
+  ): AppError & object {
+    const { convertStart, convertEnd } = this.channels
+
+    if (convertStart.hasSubscribers) {
+      convertStart.publish({ errorToHandle: this.#redacted(errorToHandle) })
+    }
+
+    let appError = this.#convert(
+      errorToHandle,
+      new WeakSet(),
+    )
+
+    if (appError.context === undefined) {
+      const context = this.#contextProvider?.()
+
+      // A copy, the same AppError may be handled again within another request
+      if (context !== undefined) {
+        appError = copyOf(appError, { context })
+      }
+    }
+
+    if (convertEnd.hasSubscribers) {
+      convertEnd.publish({
+        errorToHandle: this.#redacted(errorToHandle),
+        appError,
+      })
+    }
+
+    return appError
+  }
+
+  #convert(
+    errorToHandle: unknown,
+    ancestors: WeakSet<object>,
+  ): AppError & object {
+    if (errorToHandle instanceof AppError) {
+      return this.#completeConversion(errorToHandle, errorToHandle, ancestors)
+    }
+
+    const convertedError = this.#applyConverters(errorToHandle)
+
+    if (convertedError !== undefined) {
+      return this.#completeConversion(convertedError, errorToHandle, ancestors)
+    }
+
+    return this.#convertGeneric(errorToHandle, ancestors)
+  }
+
+  // Conversion from the usual properties of an error
+  #convertGeneric(
+    errorToHandle: unknown,
+    ancestors: WeakSet<object>,
+  ): AppError & object {
+    const errorToEnrich: object = this.#getObjectIfNotAlreadyObject(
+      errorToHandle,
+    )
+
+    ancestors.add(errorToEnrich)
+
+    const message = this.#getOneOfTheseProperties(
+      errorToEnrich,
+      ['message', 'reason', 'description'],
+      'Unknown error',
+    )
+
+    const name = this.#getOneOfTheseProperties(
+      errorToEnrich,
+      ['name', 'code'],
+      'unknown-error',
+    )
+
+    const httpStatus = this.#getOneOfTheseProperties(
+      errorToEnrich,
+      ['HTTPStatus', 'statusCode', 'status'],
+      HTTPStatus.InternalServerError,
+    )
+
+    const isOperational = this.#getOneOfTheseProperties<
+      boolean
+    >(
+      errorToEnrich,
+      ['isOperational', 'operational'],
+      false,
+    )
+
+    const stackTrace = this.#getOneOfTheseProperties<
+      string | undefined
+    >(
+      errorToEnrich,
+      ['stack'],
+      undefined,
+    )
+
+    const policy = this.#redactionPolicy
+
+    const standardError = new AppError(
+      name,
+      policy === undefined ? message : redact(message, policy) as string,
+      isOperational,
+      httpStatus,
+    )
+    // The stack is never truncated
+    standardError.stack = policy === undefined
+      ? stackTrace
+      : redact(stackTrace, { ...policy, maxStringLength: Infinity }) as
+        | string
+        | undefined
+
+    const standardErrorWithOriginProperties = Object.assign(
+      standardError,
+      policy === undefined
+        ? errorToEnrich
+        : redactProperties(errorToEnrich, policy),
+    )
+
+    // Replace the original cause and sub-errors with their AppError, a cycle ends the chain
+    const cause: unknown = Reflect.get(errorToEnrich, 'cause')
+
+    delete standardErrorWithOriginProperties.cause
+
+    if (
+      cause !== undefined &&
+      !(typeof cause === 'object' && cause !== null && ancestors.has(cause))
+    ) {
+      standardErrorWithOriginProperties.cause = this.#convert(
+        cause,
+        ancestors,
+      )
+    }
+
+    if (errorToEnrich instanceof AggregateError) {
+      standardErrorWithOriginProperties.errors = Array.from(
+        errorToEnrich.errors,
+      )
+        .filter((error) => !ancestors.has(error))
+        .map((error) => this.#convert(error, ancestors))
+    }
+
+    // Only an ancestor ends a chain, the same error may be a sub-error and the cause
+    ancestors.delete(errorToEnrich)
+
+    return standardErrorWithOriginProperties
+  }
+
+  /**
+   *  Handle errors centrally
+   *
+   * Error handling logic such as logging, deciding whether to crash and monitoring metrics should be encapsulated in a dedicated and centralized object
+   * that all entry-points (e.g. APIs, cron jobs, scheduled jobs) call when an error comes in.
+   * With a crash policy, a non-operational error crashes the process once the observers are notified.
+   *
+   * # Example 1
+   *
+   * ```typescript ignore
+   * import { errorHandler } from 'jsr:@oneday/error-handling';
+   *
+   * try {
+   *    ...
+   * } catch(error){
+   *  errorHandler.handleError(error);
+   * }
+   * ```
+   *
+   * # Example 2 - Uncaught exceptions and unhandled rejections
+   *
+   * ```typescript ignore
+   * import { errorHandler } from 'jsr:@oneday/error-handling';
+   *
+   * errorHandler.installGlobalHandlers();
+   * ```
+   */
+  handleError(errorToHandle: unknown): HTTPStatus {
+    return this.#handle(errorToHandle)?.HttpStatus ??
+      HTTPStatus.InternalServerError
+  }
+
+  // Convert, publish and notify, the AppError or undefined when the handling fails
+  #handle(errorToHandle: unknown): AppError | undefined {
+    try {
+      const appError = this.convertUnknownToAppError(
+        errorToHandle,
+      )
+
+      this.channels.handleError.publish({
+        errorToHandle: this.#redacted(errorToHandle),
+        appError,
+      })
+
+      const deduplicationPolicy = this.#deduplicationPolicy
+
+      if (deduplicationPolicy === undefined) {
+        this.notify(appError)
+      } else {
+        this.#deduplicate(appError, deduplicationPolicy)
+      }
+
+      if (
+        this.#crashPolicy !== undefined &&
+        !appError.isOperational
+      ) {
+        const { exitCode = 1, exit } = this.#crashPolicy
+
+        // Not awaited, a failing default exit still ends the process, a custom exit function decides alone, e.g. in tests
+        void this.crash(appError).catch((crashError: unknown) => {
+          this.channels.error.publish({
+            handlingError: crashError,
+            errorToHandle: appError,
+          })
+
+          if (exit === undefined) {
+            process.exit(exitCode)
+          }
+        })
+      }
+
+      return appError
+    } catch (handlingError) {
+      const redactedError = this.#redacted(errorToHandle)
+
+      this.channels.error.publish({
+        handlingError,
+        errorToHandle: redactedError,
+      })
+
+      process.stdout.write('Error handler failed')
+      process.stdout.write(inspect(handlingError))
+      process.stdout.write(inspect(redactedError))
+
+      return undefined
+    }
+  }
+}
+
+export const errorHandler: ErrorHandler = ErrorHandler.getInstance()
@@ -0,0 +1,232 @@
+import { HTTPStatus } from '@oneday/http-status'
+import { assertEquals, assertMatch, assertNotEquals } from '@std/assert'
+import { AppError, errorHandler, fingerprint, normalizeStack } from './mod.ts'
+
+const unreachable = (message: string, status = HTTPStatus.ServiceUnavailable) =>
+  new AppError('UnreachableDB', message, false, status)
+
+Deno.test({
+  name: 'normalizeStack: frames without positions and query strings',
+  fn() {
+    assertEquals(
+      normalizeStack(
+        [
+          'Error: User 2 not found',
+          '    at findUser (file:///app/user.ts?v=2:12:5)',
+          '    at file:///app/main.ts:3:1',
+          '    at http://localhost/app.js:10',
+        ].join('\n'),
+      ),
+      [
+        'findUser (file:///app/user.ts)',
+        'file:///app/main.ts',
+        'http://localhost/app.js',
+      ],
+    )
+    assertEquals(normalizeStack(undefined), [])
+  },
+})
+
+Deno.test({
+  name: 'normalizeStack: top frames only',
+  fn() {
+    const stack = [
+      'Error: deep',
+      ...Array.from(
+        { length: 10 },
+        (_, index) => `    at f${index} (a.ts:1:1)`,
+      ),
+    ].join('\n')
+
+    assertEquals(normalizeStack(stack), [
+      'f0 (a.ts)',
+      'f1 (a.ts)',
+      'f2 (a.ts)',
+      'f3 (a.ts)',
+      'f4 (a.ts)',
+    ])
+  },
+})
+
+Deno.test({
+  name: 'fingerprint: same failure whatever the message',
+  fn() {
+    assertMatch(fingerprint(unreachable('Timeout')), /^[0-9a-f]{8}$/)
+    assertEquals(
+      fingerprint(unreachable('Timeout after 1000ms')),
+      fingerprint(unreachable('Timeout after 2000ms')),
+    )
+  },
+})
+
+Deno.test({
+  name: 'fingerprint: name, status and stack',
+  fn() {
+    const error = unreachable('Timeout')
+
+    assertNotEquals(
+      fingerprint(error),
+      fingerprint(unreachable('Timeout', HTTPStatus.GatewayTimeout)),
+    )
+    assertNotEquals(
+      fingerprint(error),
+      fingerprint(
+        new AppError('UnreachableDB', 'Timeout', false, error.HttpStatus),
+      ),
+    )
+    assertNotEquals(
+      fingerprint(error),
+      fingerprint(Object.assign(unreachable('Timeout'), { name: 'Timeout' })),
+    )
+  },
+})
+
+Deno.test({
+  name: 'errorHandler:setDeduplicationPolicy one notification with the count',
+  async fn() {
+    // Arrange
+    const received: Array<[string, number | undefined]> = []
+    const observer = (error: AppError) => {
+      received.push([error.message, error.occurrences])
+    }
+
+    errorHandler.attach(observer)
+    errorHandler.setDeduplicationPolicy({ window: 60_000 })
+
+    // Act
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      errorHandler.handleError(unreachable(`Attempt ${attempt}`))
+    }
+
+    const beforeFlush = [...received]
+
+    await errorHandler.flush()
+
+    errorHandler.setDeduplicationPolicy(undefined)
+    errorHandler.detach(observer)
+
+    // Assert
+    assertEquals(beforeFlush, [['Attempt 1', undefined]])
+    assertEquals(received, [['Attempt 1', undefined], ['Attempt 5', 4]])
+  },
+})
+
+Deno.test({
+  name: 'errorHandler:setDeduplicationPolicy rate limit per fingerprint',
+  async fn() {
+    // Arrange
+    const received: Array<string> = []
+    const observer = (error: AppError) => {
+      received.push(error.name)
+    }
+    const conflict = () => new AppError('Conflict', 'Email already used', true)
+
+    errorHandler.attach(observer)
+    errorHandler.setDeduplicationPolicy({ window: 60_000, limit: 2 })
+
+    // Act
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      errorHandler.handleError(unreachable('Timeout'))
+      errorHandler.handleError(conflict())
+    }
+
+    const beforeFlush = [...received]
+
+    await errorHandler.flush()
+
+    errorHandler.setDeduplicationPolicy(undefined)
+    errorHandler.detach(observer)
+
+    // Assert
+    assertEquals(beforeFlush, [
+      'UnreachableDB',
+      'Conflict',
+      'UnreachableDB',
+      'Conflict',
+    ])
+    assertEquals(received.length, 6)
+  },
+})
+
+Deno.test({
+  name: 'errorHandler:setDeduplicationPolicy notifies once the window slides',
+  async fn() {
+    // Arrange
+    const received: Array<number | undefined> = []
+    const observer = (error: AppError) => {
+      received.push(error.occurrences)
+    }
+
+    errorHandler.attach(observer)
+    errorHandler.setDeduplicationPolicy({ window: 20 })
+
+    // Act
+    errorHandler.handleError(unreachable('Timeout'))
+    errorHandler.handleError(unreachable('Timeout'))
+    errorHandler.handleError(unreachable('Timeout'))
+
+    await new Promise((resolve) => setTimeout(resolve, 50))
+
+    errorHandler.handleError(unreachable('Timeout'))
+
+    errorHandler.setDeduplicationPolicy(undefined)
+    errorHandler.detach(observer)
+
+    // Assert
+    assertEquals(received, [undefined, 2, undefined])
+  },
+})
+
+Deno.test({
+  name: 'errorHandler:setDeduplicationPolicy never modifies the AppError',
+  async fn() {
+    // Arrange
+    const counts: Array<number> = []
+    const shared = unreachable('Timeout')
+    const observer = (error: AppError) => {
+      counts.push(error.occurrences ?? 1)
+    }
+
+    errorHandler.attach(observer)
+    errorHandler.setDeduplicationPolicy({ window: 60_000 })
+
+    // Act
+    for (let attempt = 0; attempt < 4; attempt++) {
+      errorHandler.handleError(shared)
+    }
+
+    await errorHandler.flush()
+
+    errorHandler.setDeduplicationPolicy(undefined)
+    errorHandler.handleError(shared)
+    errorHandler.detach(observer)
+
+    // Assert
+    assertEquals(counts, [1, 3, 1])
+    assertEquals(shared.occurrences, undefined)
+  },
+})
+
+Deno.test({
+  name:
+    'errorHandler:setDeduplicationPolicy undefined clears the pending timers',
+  fn() {
+    // Arrange
+    const received: Array<number | undefined> = []
+    const observer = (error: AppError) => {
+      received.push(error.occurrences)
+    }
+
+    errorHandler.attach(observer)
+    errorHandler.setDeduplicationPolicy({ window: 60_000 })
+
+    // Act
+    errorHandler.handleError(unreachable('Timeout'))
+    errorHandler.handleError(unreachable('Timeout'))
+    errorHandler.setDeduplicationPolicy(undefined)
+    errorHandler.detach(observer)
+
+    // Assert: the timer sanitizer fails on a pending timer
+    assertEquals(received, [undefined, 1])
+  },
+})
@@ -0,0 +1,68 @@
+import type { AppError } from './app-error.ts'
+
+// Frames kept in a fingerprint, the deepest ones belong to the runtime
+const maxFrames = 5
+
+// FNV-1a, a fast hash stable across processes
+function hash(value: string): string {
+  let result = 0x811c9dc5
+
+  for (let index = 0; index < value.length; index++) {
+    result ^= value.charCodeAt(index)
+    result = Math.imul(result, 0x01000193)
+  }
+
+  return (result >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * Stack frames without the message, the line and column numbers and the query strings,
+ * a new build or a different message keep the same frames
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert';
+ * import { normalizeStack } from 'jsr:@oneday/error-handling';
+ *
+ * assertEquals(
+ *   normalizeStack('Error: User 2 not found\n    at findUser (file:///app/user.ts?v=2:12:5)\n    at async main (file:///app/main.ts:3:1)'),
+ *   ['findUser (file:///app/user.ts)', 'async main (file:///app/main.ts)'],
+ * );
+ * ```
+ */
+export function normalizeStack(stack: string | undefined): Array<string> {
+  return (stack ?? '')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.startsWith('at '))
+    .slice(0, maxFrames)
+    .map((frame) =>
+      frame
+        .slice('at '.length)
+        .replace(/\?[^:)\s]*/g, '')
+        .replace(/(:\d+)+(\)?)$/, '$2')
+    )
+}
+
+/**
+ * Stable fingerprint of an AppError from its name, normalized stack frames and HTTP status,
+ * the occurrences of the same failure share a fingerprint whatever their message
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals, assertNotEquals } from 'jsr:@std/assert';
+ * import { AppError, fingerprint } from 'jsr:@oneday/error-handling';
+ *
+ * const fail = (message: string, status = 500) => new AppError('UnreachableDB', message, false, status);
+ *
+ * assertEquals(fingerprint(fail('Timeout after 1000ms')), fingerprint(fail('Timeout after 2000ms')));
+ * assertNotEquals(fingerprint(fail('Timeout')), fingerprint(fail('Timeout', 503)));
+ * ```
+ */
+export function fingerprint(error: Readonly<AppError>): string {
+  return hash(
+    [error.name, error.HttpStatus, ...normalizeStack(error.stack)].join('\n'),
+  )
+}
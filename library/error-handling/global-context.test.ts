@@ -0,0 +1,117 @@
+import { context } from '@oneday/global-context'
+import { assertEquals } from '@std/assert'
+import { AppError, errorHandler } from './mod.ts'
+import { globalContextProvider } from './global-context.ts'
+
+Deno.test({
+  name: 'globalContextProvider: snapshot of the store',
+  fn() {
+    context.run({
+      requestId: '1234',
+      user: { id: 42, email: 'john@doe.com' },
+      metadata: { message: 'hello' },
+    }, () => {
+      const snapshot = globalContextProvider()
+
+      context.set('metadata', { message: 'changed' })
+
+      assertEquals(snapshot, {
+        requestId: '1234',
+        userId: 42,
+        metadata: { message: 'hello' },
+      })
+    })
+  },
+})
+
+Deno.test({
+  name: 'globalContextProvider: outside of a request',
+  fn() {
+    assertEquals(globalContextProvider(), undefined)
+    context.run({}, () => assertEquals(globalContextProvider(), {}))
+  },
+})
+
+Deno.test({
+  name: 'errorHandler:handleError observers receive the request context',
+  async fn() {
+    // Arrange
+    let received: AppError | undefined
+    const observer = (error: AppError) => {
+      received = error
+    }
+
+    errorHandler.setContextProvider(globalContextProvider)
+    errorHandler.attach(observer)
+
+    // Act
+    await context.run({ requestId: '1234' }, async () => {
+      await Promise.resolve()
+
+      errorHandler.handleError(new Error('Technical error'))
+    })
+
+    errorHandler.detach(observer)
+    errorHandler.setContextProvider(undefined)
+
+    // Assert
+    assertEquals(received?.context, { requestId: '1234' })
+  },
+})
+
+Deno.test({
+  name: 'errorHandler:convertUnknownToAppError keeps an existing context',
+  fn() {
+    const appError = new AppError('ResourceNotFound', 'User resource not found')
+    appError.context = { requestId: 'origin' }
+
+    errorHandler.setContextProvider(globalContextProvider)
+
+    context.run({ requestId: '1234' }, () => {
+      assertEquals(
+        errorHandler.convertUnknownToAppError(appError).context,
+        { requestId: 'origin' },
+      )
+      assertEquals(
+        errorHandler.convertUnknownToAppError('Technical error').context,
+        { requestId: '1234' },
+      )
+    })
+
+    errorHandler.setContextProvider(undefined)
+
+    assertEquals(
+      errorHandler.convertUnknownToAppError('Technical error').context,
+      undefined,
+    )
+  },
+})
+
+Deno.test({
+  name: 'errorHandler:handleError the same AppError within two requests',
+  fn() {
+    // Arrange
+    const shared = new AppError('ResourceNotFound', 'User resource not found')
+    const received: Array<string | undefined> = []
+    const stacks: Array<string | undefined> = []
+    const observer = (error: AppError) => {
+      received.push(error.context?.requestId)
+      stacks.push(error.stack)
+    }
+
+    errorHandler.setContextProvider(globalContextProvider)
+    errorHandler.attach(observer)
+
+    // Act
+    context.run({ requestId: 'A' }, () => errorHandler.handleError(shared))
+    context.run({ requestId: 'B' }, () => errorHandler.handleError(shared))
+
+    errorHandler.detach(observer)
+    errorHandler.setContextProvider(undefined)
+
+    // Assert
+    assertEquals(received, ['A', 'B'])
+    assertEquals(stacks, [shared.stack, shared.stack])
+    assertEquals(shared.context, undefined)
+  },
+})
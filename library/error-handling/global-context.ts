@@ -0,0 +1,55 @@
+/**
+ * @module
+ *
+ * Enrich each AppError with the `@oneday/global-context` store of the current request,
+ * the observers and log lines get the `requestId`, the user id and the metadata.
+ *
+ * @example
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert';
+ * import { errorHandler } from 'jsr:@oneday/error-handling';
+ * import { globalContextProvider } from 'jsr:@oneday/error-handling/global-context';
+ * import { context } from 'jsr:@oneday/global-context';
+ *
+ * errorHandler.setContextProvider(globalContextProvider);
+ *
+ * context.run({ requestId: '1234', user: { id: 42 } }, () => {
+ *   const appError = errorHandler.convertUnknownToAppError(new Error('test'));
+ *
+ *   assertEquals(appError.context, { requestId: '1234', userId: 42 });
+ * });
+ *
+ * errorHandler.setContextProvider(undefined);
+ * ```
+ */
+
+import { context } from '@oneday/global-context'
+import type { ErrorContext } from './app-error.ts'
+
+/**
+ * Snapshot of the current `@oneday/global-context` store, `undefined` outside of `context.run`
+ */
+export function globalContextProvider(): ErrorContext | undefined {
+  const store = context.getStore()
+
+  if (store === undefined) {
+    return undefined
+  }
+
+  const snapshot: ErrorContext = {}
+
+  if (store.requestId !== undefined) {
+    snapshot.requestId = store.requestId
+  }
+
+  if (store.user?.id !== undefined) {
+    snapshot.userId = store.user.id
+  }
+
+  // Copy the metadata, the store may change after the conversion
+  if (store.metadata !== undefined) {
+    snapshot.metadata = { ...store.metadata }
+  }
+
+  return snapshot
+}
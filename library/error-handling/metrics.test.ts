@@ -0,0 +1,154 @@
+import { HTTPStatus } from '@oneday/http-status'
+import { assertEquals } from '@std/assert'
+import {
+  AppError,
+  ErrorHandler,
+  ErrorMetrics,
+  metricsContentType,
+} from './mod.ts'
+
+const notFound = () =>
+  new AppError('resourceNotFound', 'User not found', true, HTTPStatus.NotFound)
+
+Deno.test({
+  name: 'ErrorMetrics: counters by name, status and operational flag',
+  fn() {
+    // Arrange
+    const handler = new ErrorHandler()
+    const metrics = new ErrorMetrics()
+
+    handler.attach(metrics.observer)
+
+    // Act
+    handler.handleError(notFound())
+    handler.handleError(notFound())
+    handler.handleError(new TypeError('x is undefined'))
+
+    // Assert
+    assertEquals(metrics.counters(), [
+      {
+        name: 'resourceNotFound',
+        status: 404,
+        isOperational: true,
+        count: 2,
+      },
+      { name: 'TypeError', status: 500, isOperational: false, count: 1 },
+    ])
+  },
+})
+
+Deno.test({
+  name: 'ErrorMetrics: counts the suppressed occurrences',
+  async fn() {
+    // Arrange
+    const handler = new ErrorHandler()
+    const metrics = new ErrorMetrics()
+
+    handler.attach(metrics.observer)
+    handler.setDeduplicationPolicy({ window: 60_000 })
+
+    // Act
+    for (let attempt = 0; attempt < 4; attempt++) {
+      handler.handleError(notFound())
+    }
+
+    await handler.flush()
+
+    handler.setDeduplicationPolicy(undefined)
+
+    // Assert
+    assertEquals(metrics.counters()[0].count, 4)
+  },
+})
+
+Deno.test({
+  name: 'ErrorMetrics: histogram of the last intervals',
+  fn() {
+    // Arrange
+    let now = 10_000
+    const metrics = new ErrorMetrics({
+      interval: 1000,
+      intervals: 3,
+      now: () => now,
+    })
+
+    // Act
+    metrics.observer(notFound())
+    now = 11_500
+    metrics.observer(notFound())
+    metrics.observer(notFound())
+    now = 12_000
+
+    const histogram = metrics.histogram()
+
+    now = 14_000
+
+    // Assert
+    assertEquals(histogram, [
+      { start: 10_000, count: 1 },
+      { start: 11_000, count: 2 },
+      { start: 12_000, count: 0 },
+    ])
+    assertEquals(metrics.histogram(), [
+      { start: 12_000, count: 0 },
+      { start: 13_000, count: 0 },
+      { start: 14_000, count: 0 },
+    ])
+  },
+})
+
+Deno.test({
+  name: 'ErrorMetrics:toPrometheus text format',
+  fn() {
+    // Arrange
+    const metrics = new ErrorMetrics({
+      prefix: 'api_errors',
+      interval: 1000,
+      intervals: 2,
+      now: () => 5_000,
+    })
+
+    // Act
+    metrics.observer(notFound())
+    metrics.observer(new AppError('Bad "name"\\', 'test'))
+
+    // Assert
+    assertEquals(
+      metrics.toPrometheus(),
+      [
+        '# HELP api_errors_total Errors handled by name, HTTP status and operational flag.',
+        '# TYPE api_errors_total counter',
+        'api_errors_total{name="resourceNotFound",status="404",operational="true"} 1',
+        'api_errors_total{name="Bad \\"name\\"\\\\",status="500",operational="false"} 1',
+        '# HELP api_errors_interval Errors handled during the interval of 1000ms started ago intervals before the current one.',
+        '# TYPE api_errors_interval gauge',
+        'api_errors_interval{ago="0"} 2',
+        'api_errors_interval{ago="1"} 0',
+        '',
+      ].join('\n'),
+    )
+  },
+})
+
+Deno.test({
+  name: 'ErrorMetrics:toResponse and reset',
+  async fn() {
+    // Arrange
+    const metrics = new ErrorMetrics({ intervals: 1 })
+
+    metrics.observer(notFound())
+
+    // Act
+    metrics.reset()
+
+    const response = metrics.toResponse()
+
+    // Assert
+    assertEquals(response.headers.get('content-type'), metricsContentType)
+    assertEquals(metrics.counters(), [])
+    assertEquals(
+      (await response.text()).includes('errors_total{'),
+      false,
+    )
+  },
+})
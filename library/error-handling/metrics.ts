@@ -0,0 +1,213 @@
+import type { AppError } from './app-error.ts'
+import type { Observer } from './error-handler.ts'
+
+/**
+ * Media type of the Prometheus text exposition format
+ */
+export const metricsContentType = 'text/plain; version=0.0.4; charset=utf-8'
+
+/**
+ * Options of `ErrorMetrics`
+ */
+export type ErrorMetricsOptions = {
+  /** prefix of the metric names, `errors` by default */
+  prefix?: string
+  /** duration of an interval of the histogram in milliseconds, 60000 by default */
+  interval?: number
+  /** intervals kept in the histogram, 60 by default */
+  intervals?: number
+  /** current time in milliseconds, `Date.now` by default */
+  now?: () => number
+}
+
+/**
+ * Errors counted by name, HTTP status and operational flag
+ */
+export type ErrorCounter = {
+  name: string
+  status: number
+  isOperational: boolean
+  count: number
+}
+
+/**
+ * Errors counted during an interval of the histogram
+ */
+export type ErrorInterval = {
+  /** start of the interval in milliseconds since the epoch */
+  start: number
+  count: number
+}
+
+// Escape a label value of the Prometheus text format
+const escapeLabel = (value: string) =>
+  value.replaceAll('\\', '\\\\').replaceAll('"', '\\"').replaceAll('\n', '\\n')
+
+/**
+ * Metrics observer counting the notified errors by name, HTTP status and operational flag,
+ * with a histogram of the occurrences over the last intervals. The suppressed occurrences of a deduplicated error are counted.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertStringIncludes } from 'jsr:@std/assert';
+ * import { AppError, ErrorHandler, ErrorMetrics } from 'jsr:@oneday/error-handling';
+ *
+ * const handler = new ErrorHandler();
+ * const metrics = new ErrorMetrics();
+ *
+ * handler.attach(metrics.observer);
+ * handler.handleError(new AppError('resourceNotFound', 'User 2 not found', true, 404));
+ *
+ * assertStringIncludes(
+ *   metrics.toPrometheus(),
+ *   'errors_total{name="resourceNotFound",status="404",operational="true"} 1',
+ * );
+ * ```
+ */
+export class ErrorMetrics {
+  #prefix: string
+  #interval: number
+  #intervals: number
+  #now: () => number
+  #counters: Map<string, ErrorCounter> = new Map()
+  #histogram: Map<number, number> = new Map()
+
+  constructor(options: Readonly<ErrorMetricsOptions> = {}) {
+    const {
+      prefix = 'errors',
+      interval = 60_000,
+      intervals = 60,
+      now = Date.now,
+    } = options
+
+    this.#prefix = prefix
+    this.#interval = interval
+    this.#intervals = intervals
+    this.#now = now
+  }
+
+  /**
+   * Observer to attach to an ErrorHandler
+   */
+  readonly observer: Observer = (appError: AppError) => {
+    const count = appError.occurrences ?? 1
+    const key = JSON.stringify([
+      appError.name,
+      appError.HttpStatus,
+      appError.isOperational,
+    ])
+    const counter = this.#counters.get(key)
+
+    if (counter === undefined) {
+      this.#counters.set(key, {
+        name: appError.name,
+        status: appError.HttpStatus,
+        isOperational: appError.isOperational,
+        count,
+      })
+    } else {
+      counter.count += count
+    }
+
+    const current = this.#currentInterval()
+
+    this.#histogram.set(current, (this.#histogram.get(current) ?? 0) + count)
+    this.#prune(current)
+  }
+
+  #currentInterval(): number {
+    return Math.floor(this.#now() / this.#interval)
+  }
+
+  // Forget the intervals older than the histogram
+  #prune(current: number) {
+    for (const index of this.#histogram.keys()) {
+      if (index <= current - this.#intervals) {
+        this.#histogram.delete(index)
+      }
+    }
+  }
+
+  /**
+   * Counters in order of first occurrence
+   */
+  counters(): Array<ErrorCounter> {
+    return Array.from(this.#counters.values(), (counter) => ({ ...counter }))
+  }
+
+  /**
+   * Occurrences of each interval of the histogram, from the oldest to the current one
+   */
+  histogram(): Array<ErrorInterval> {
+    const current = this.#currentInterval()
+
+    this.#prune(current)
+
+    return Array.from({ length: this.#intervals }, (_, position) => {
+      const index = current - this.#intervals + 1 + position
+
+      return {
+        start: index * this.#interval,
+        count: this.#histogram.get(index) ?? 0,
+      }
+    })
+  }
+
+  /**
+   * Forget the counters and the histogram
+   */
+  reset() {
+    this.#counters.clear()
+    this.#histogram.clear()
+  }
+
+  /**
+   * Render the metrics in the Prometheus text format: the `<prefix>_total` counter
+   * and the `<prefix>_interval` gauge, the occurrences of the interval `ago` intervals before the current one
+   */
+  toPrometheus(): string {
+    const total = `${this.#prefix}_total`
+    const interval = `${this.#prefix}_interval`
+
+    const lines = [
+      `# HELP ${total} Errors handled by name, HTTP status and operational flag.`,
+      `# TYPE ${total} counter`,
+      ...this.counters().map(({ name, status, isOperational, count }) =>
+        `${total}{name="${
+          escapeLabel(name)
+        }",status="${status}",operational="${isOperational}"} ${count}`
+      ),
+      `# HELP ${interval} Errors handled during the interval of ${this.#interval}ms started ago intervals before the current one.`,
+      `# TYPE ${interval} gauge`,
+      ...this.histogram().reverse().map(({ count }, ago) =>
+        `${interval}{ago="${ago}"} ${count}`
+      ),
+    ]
+
+    return `${lines.join('\n')}\n`
+  }
+
+  /**
+   * Response of a `/metrics` route
+   *
+   * # Example
+   *
+   * ```typescript ignore
+   * import { errorHandler, ErrorMetrics } from 'jsr:@oneday/error-handling';
+   *
+   * const metrics = new ErrorMetrics();
+   *
+   * errorHandler.attach(metrics.observer);
+   *
+   * Deno.serve((request) =>
+   *   new URL(request.url).pathname === '/metrics' ? metrics.toResponse() : new Response('OK')
+   * );
+   * ```
+   */
+  toResponse(): Response {
+    return new Response(this.toPrometheus(), {
+      headers: { 'content-type': metricsContentType },
+    })
+  }
+}
@@ -1,6 +1,11 @@
 import { HTTPStatus } from '@oneday/http-status'
-import { AppError, errorHandler } from './mod.ts'
-import { assertEquals, assertInstanceOf, assertObjectMatch } from '@std/assert'
+import { AppError, causeChain, ErrorHandler, errorHandler } from './mod.ts'
+import {
+  assertEquals,
+  assertInstanceOf,
+  assertNotEquals,
+  assertObjectMatch,
+} from '@std/assert'
 import { assertSpyCall, assertSpyCalls, spy, stub } from '@std/testing/mock'
 import diagnostics_channel from 'node:diagnostics_channel'
 import process from 'node:process'
@@ -301,6 +306,769 @@ Deno.test({
   },
 })
 
+Deno.test({
+  name: 'Class AppError: cause and errors',
+  fn() {
+    const cause = new AppError('ConnectionRefused', 'ECONNREFUSED')
+    const appError = new AppError(
+      'UnreachableDB',
+      'Database unreachable',
+      false,
+      HTTPStatus.ServiceUnavailable,
+      { cause, errors: [cause] },
+    )
+
+    assertEquals(appError.cause, cause)
+    assertEquals(appError.errors, [cause])
+    assertEquals(
+      'cause' in new AppError('ResourceNotFound', 'User resource not found'),
+      false,
+    )
+    assertEquals(causeChain(appError), [appError, cause])
+  },
+})
+
+Deno.test({
+  name: 'errorHandler: convertUnknownToAppError with cause chain',
+  fn() {
+    const appError = errorHandler.convertUnknownToAppError(
+      new Error('Service unavailable', {
+        cause: new Error('Database unreachable', {
+          cause: { code: 'ECONNREFUSED', description: 'Connection refused' },
+        }),
+      }),
+    )
+
+    assertInstanceOf(appError.cause, AppError)
+    assertInstanceOf(appError.cause.cause, AppError)
+    assertEquals(
+      causeChain(appError).map(({ name, message }) => [name, message]),
+      [
+        ['Error', 'Service unavailable'],
+        ['Error', 'Database unreachable'],
+        ['ECONNREFUSED', 'Connection refused'],
+      ],
+    )
+  },
+})
+
+Deno.test({
+  name: 'errorHandler: convertUnknownToAppError with cyclic causes',
+  fn() {
+    const first = new Error('First')
+    const second = new Error('Second', { cause: first })
+    first.cause = second
+
+    const appError = errorHandler.convertUnknownToAppError(first)
+
+    assertEquals(
+      causeChain(appError).map(({ message }) => message),
+      ['First', 'Second'],
+    )
+    assertEquals(appError.cause?.cause, undefined)
+  },
+})
+
+Deno.test({
+  name: 'errorHandler: convertUnknownToAppError with AggregateError',
+  fn() {
+    const appError = errorHandler.convertUnknownToAppError(
+      new AggregateError(
+        [
+          new Error('Email is required'),
+          { code: 'InvalidAge', message: 'Age must be positive', status: 400 },
+          'Name is too long',
+        ],
+        'Invalid user',
+      ),
+    )
+
+    assertObjectMatch(appError, {
+      name: 'AggregateError',
+      message: 'Invalid user',
+    })
+    assertEquals(appError.errors?.length, 3)
+    appError.errors?.forEach((error) => assertInstanceOf(error, AppError))
+    assertEquals(
+      appError.errors?.map(({ message }) => message),
+      ['Email is required', 'Age must be positive', 'Name is too long'],
+    )
+    assertEquals(appError.errors?.[1].HttpStatus, HTTPStatus.BadRequest)
+  },
+})
+
+Deno.test({
+  name: 'errorHandler: convertUnknownToAppError with a sub-error as the cause',
+  fn() {
+    const failure = new Error('Email is required')
+
+    const appError = errorHandler.convertUnknownToAppError(
+      new AggregateError([failure], 'Invalid user', { cause: failure }),
+    )
+
+    assertEquals(
+      appError.errors?.map(({ message }) => message),
+      ['Email is required'],
+    )
+    assertEquals(appError.cause?.message, 'Email is required')
+  },
+})
+
+Deno.test({
+  name: 'errorHandler:handleError observers receive the cause chain',
+  fn() {
+    // Arrange
+    let received: AppError | undefined
+    const observer = (error: AppError) => {
+      received = error
+    }
+
+    errorHandler.attach(observer)
+
+    // Act
+    errorHandler.handleError(
+      new Error('Database unreachable', { cause: new Error('ECONNREFUSED') }),
+    )
+    errorHandler.detach(observer)
+
+    // Assert
+    assertInstanceOf(received, AppError)
+    assertEquals(
+      causeChain(received).map(({ message }) => message),
+      ['Database unreachable', 'ECONNREFUSED'],
+    )
+  },
+})
+
+Deno.test({
+  name: 'errorHandler:handleError without crash policy',
+  fn() {
+    // Arrange
+    const hook = spy()
+
+    errorHandler.addShutdownHook(hook)
+
+    // Act
+    errorHandler.handleError(new Error('Technical error'))
+    errorHandler.removeShutdownHook(hook)
+
+    // Assert
+    assertSpyCalls(hook, 0)
+  },
+})
+
+Deno.test({
+  name: 'errorHandler:handleError crash policy on non-operational error',
+  async fn() {
+    // Arrange
+    const steps: Array<string> = []
+    const { promise: exited, resolve } = Promise.withResolvers<number>()
+    const hook = async (error: AppError) => {
+      await Promise.resolve()
+
+      steps.push(`hook ${error.message}`)
+    }
+    const observer = () => {
+      steps.push('observer')
+    }
+
+    errorHandler.attach(observer)
+    errorHandler.addShutdownHook(hook)
+    errorHandler.setCrashPolicy({
+      exitCode: 2,
+      exit: (code) => {
+        steps.push('exit')
+        resolve(code)
+      },
+    })
+
+    // Act
+    const httpStatus = errorHandler.handleError(new Error('Technical error'))
+    const code = await exited
+
+    errorHandler.setCrashPolicy(undefined)
+    errorHandler.removeShutdownHook(hook)
+    errorHandler.detach(observer)
+
+    // Assert
+    assertEquals(httpStatus, HTTPStatus.InternalServerError)
+    assertEquals(code, 2)
+    assertEquals(steps, ['observer', 'hook Technical error', 'exit'])
+  },
+})
+
+Deno.test({
+  name: 'errorHandler:handleError crash policy ignores operational error',
+  fn() {
+    // Arrange
+    const exit = spy()
+
+    errorHandler.setCrashPolicy({ exit })
+
+    // Act
+    errorHandler.handleError(
+      new AppError('ResourceNotFound', 'User resource not found', true),
+    )
+    errorHandler.setCrashPolicy(undefined)
+
+    // Assert
+    assertSpyCalls(exit, 0)
+  },
+})
+
+Deno.test({
+  name: 'errorHandler:crash shutdown hooks timeout',
+  async fn() {
+    // Arrange
+    const exit = spy()
+    const { promise: never, resolve } = Promise.withResolvers<void>()
+    const hook = () => never
+
+    errorHandler.addShutdownHook(hook)
+    errorHandler.setCrashPolicy({ timeout: 10, exit })
+
+    // Act
+    await errorHandler.crash(new AppError('TypeError', 'x is undefined'))
+
+    errorHandler.setCrashPolicy(undefined)
+    errorHandler.removeShutdownHook(hook)
+    resolve()
+
+    // Assert
+    assertSpyCall(exit, 0, { args: [1] })
+  },
+})
+
+Deno.test({
+  name: 'errorHandler:crash failing shutdown hook',
+  async fn() {
+    // Arrange
+    const exit = spy()
+    const failure = new Error('Server already closed')
+    const failing = () => Promise.reject(failure)
+    const hook = spy()
+    let handlingError: unknown
+
+    const onError = (message: unknown) => {
+      handlingError = (message as { handlingError: unknown }).handlingError
+    }
+
+    diagnostics_channel.subscribe('error-handling:error', onError)
+    errorHandler.addShutdownHook(failing)
+    errorHandler.addShutdownHook(hook)
+    errorHandler.setCrashPolicy({ exit })
+
+    // Act
+    await errorHandler.crash(new AppError('TypeError', 'x is undefined'))
+
+    diagnostics_channel.unsubscribe('error-handling:error', onError)
+    errorHandler.setCrashPolicy(undefined)
+    errorHandler.removeShutdownHook(failing)
+    errorHandler.removeShutdownHook(hook)
+
+    // Assert
+    assertEquals(handlingError, failure)
+    assertSpyCalls(hook, 1)
+    assertSpyCalls(exit, 1)
+  },
+})
+
+Deno.test({
+  name: 'errorHandler:handleError publishes the failure of the exit function',
+  async fn() {
+    // Arrange
+    using processExit = stub(process, 'exit')
+    const exitFailure = new Error('Exit failed')
+    const messages: Array<unknown> = []
+    const onError = (message: unknown) => {
+      messages.push((message as { handlingError: unknown }).handlingError)
+    }
+
+    diagnostics_channel.subscribe('error-handling:error', onError)
+    errorHandler.setCrashPolicy({
+      exitCode: 2,
+      exit: () => {
+        throw exitFailure
+      },
+    })
+
+    // Act
+    errorHandler.handleError(new Error('Technical error'))
+    await new Promise((resolve) => setTimeout(resolve, 10))
+
+    diagnostics_channel.unsubscribe('error-handling:error', onError)
+    errorHandler.setCrashPolicy(undefined)
+
+    // Assert
+    assertSpyCalls(processExit, 0)
+    assertEquals(messages, [exitFailure])
+  },
+})
+
+Deno.test({
+  name: 'errorHandler:installGlobalHandlers error event',
+  fn() {
+    // Arrange
+    const error = new Error('Uncaught error')
+    const func = spy()
+
+    errorHandler.attach(func)
+
+    // Act
+    const globalHandlers = errorHandler.installGlobalHandlers({
+      preventDefault: true,
+    })
+    const notPrevented = globalThis.dispatchEvent(
+      new ErrorEvent('error', { error, cancelable: true }),
+    )
+
+    globalHandlers[Symbol.dispose]()
+    errorHandler.detach(func)
+
+    // Assert
+    assertEquals(notPrevented, false)
+    assertSpyCalls(func, 1)
+    assertObjectMatch(func.calls[0].args[0] as AppError, {
+      message: 'Uncaught error',
+    })
+  },
+})
+
+Deno.test({
+  name: 'errorHandler:installGlobalHandlers unhandledrejection event',
+  fn() {
+    // Arrange
+    const reason = new AppError('ResourceNotFound', 'User resource not found')
+    const promise = Promise.reject(reason)
+    const func = spy()
+
+    promise.catch(() => undefined)
+    errorHandler.attach(func)
+
+    // Act
+    using _globalHandlers = errorHandler.installGlobalHandlers({
+      preventDefault: false,
+    })
+    const notPrevented = globalThis.dispatchEvent(
+      new PromiseRejectionEvent('unhandledrejection', {
+        promise,
+        reason,
+        cancelable: true,
+      }),
+    )
+
+    errorHandler.detach(func)
+
+    // Assert
+    assertEquals(notPrevented, true)
+    assertSpyCall(func, 0, { args: [reason] })
+  },
+})
+
+Deno.test({
+  name:
+    'errorHandler:installGlobalHandlers prevents the default only with a crash policy',
+  fn() {
+    // Arrange
+    const exit = spy()
+    const dispatch = () =>
+      globalThis.dispatchEvent(
+        new ErrorEvent('error', {
+          error: new AppError('ResourceNotFound', 'Not found', true, 404),
+          cancelable: true,
+        }),
+      )
+
+    // Act
+    using _globalHandlers = errorHandler.installGlobalHandlers()
+
+    const withoutPolicy = dispatch()
+
+    errorHandler.setCrashPolicy({ exit })
+
+    const withPolicy = dispatch()
+
+    errorHandler.setCrashPolicy(undefined)
+
+    // Assert
+    assertEquals(withoutPolicy, true)
+    assertEquals(withPolicy, false)
+    assertSpyCalls(exit, 0)
+  },
+})
+
+Deno.test({
+  name: 'errorHandler:installGlobalHandlers dispose',
+  fn() {
+    // Arrange
+    const func = spy()
+
+    errorHandler.attach(func)
+
+    // Act
+    const globalHandlers = errorHandler.installGlobalHandlers()
+
+    globalHandlers[Symbol.dispose]()
+
+    const notPrevented = globalThis.dispatchEvent(
+      new ErrorEvent('error', {
+        error: new Error('Uncaught'),
+        cancelable: true,
+      }),
+    )
+
+    errorHandler.detach(func)
+
+    // Assert
+    assertEquals(notPrevented, true)
+    assertSpyCalls(func, 0)
+  },
+})
+
+Deno.test({
+  name: 'errorHandler:notify observer isolation',
+  fn() {
+    // Arrange
+    using _stdout = stub(process.stdout, 'write')
+    const appError = new AppError('ResourceNotFound', 'User resource not found')
+    const failing = () => {
+      throw new Error('Observer failed')
+    }
+    const func = spy()
+
+    errorHandler.attach(failing)
+    errorHandler.attach(func)
+
+    // Act
+    const httpStatus = errorHandler.handleError(appError)
+
+    errorHandler.detach(failing)
+    errorHandler.detach(func)
+
+    // Assert
+    assertEquals(httpStatus, HTTPStatus.InternalServerError)
+    assertSpyCall(func, 0, { args: [appError] })
+  },
+})
+
+Deno.test({
+  name: 'errorHandler:notify async observer with flush',
+  async fn() {
+    // Arrange
+    const received: Array<string> = []
+    const observer = async (error: AppError) => {
+      await new Promise((resolve) => setTimeout(resolve, 1))
+
+      received.push(error.message)
+    }
+
+    errorHandler.attach(observer)
+
+    // Act
+    errorHandler.notify(new AppError('First', 'first'))
+    errorHandler.notify(new AppError('Second', 'second'))
+    errorHandler.notify(new AppError('Third', 'third'))
+
+    const beforeFlush = [...received]
+
+    await errorHandler.flush()
+    errorHandler.detach(observer)
+
+    // Assert
+    assertEquals(beforeFlush, [])
+    assertEquals(received, ['first', 'second', 'third'])
+  },
+})
+
+Deno.test({
+  name: 'errorHandler:notify async observer failure',
+  async fn() {
+    // Arrange
+    using _stdout = stub(process.stdout, 'write')
+    const failure = new Error('Collector unreachable')
+    const observer = () => Promise.reject(failure)
+    let handlingError: unknown
+
+    const onError = (message: unknown) => {
+      handlingError = (message as { handlingError: unknown }).handlingError
+    }
+
+    diagnostics_channel.subscribe('error-handling:error', onError)
+    errorHandler.attach(observer)
+
+    // Act
+    errorHandler.notify(new AppError('ResourceNotFound', 'not found'))
+    await errorHandler.flush()
+
+    diagnostics_channel.unsubscribe('error-handling:error', onError)
+    errorHandler.detach(observer)
+
+    // Assert
+    assertEquals(handlingError, failure)
+  },
+})
+
+Deno.test({
+  name: 'errorHandler:notify bounded queue drops the newest',
+  async fn() {
+    // Arrange
+    const received: Array<string> = []
+    const dropped: Array<unknown> = []
+    const observer = async (error: AppError) => {
+      await Promise.resolve()
+
+      received.push(error.name)
+    }
+    const onDrop = (message: unknown) => {
+      dropped.push((message as { appError: AppError }).appError.name)
+    }
+
+    diagnostics_channel.subscribe('error-handling:drop', onDrop)
+    errorHandler.setQueuePolicy({ maxSize: 1 })
+    errorHandler.attach(observer)
+
+    // Act
+    for (const name of ['First', 'Second', 'Third']) {
+      errorHandler.notify(new AppError(name, 'message'))
+    }
+
+    await errorHandler.flush()
+
+    diagnostics_channel.unsubscribe('error-handling:drop', onDrop)
+    errorHandler.setQueuePolicy({})
+    errorHandler.detach(observer)
+
+    // Assert
+    assertEquals(received, ['First', 'Second'])
+    assertEquals(dropped, ['Third'])
+  },
+})
+
+Deno.test({
+  name: 'errorHandler:notify bounded queue drops the oldest',
+  async fn() {
+    // Arrange
+    const received: Array<string> = []
+    const observer = async (error: AppError) => {
+      await Promise.resolve()
+
+      received.push(error.name)
+    }
+
+    errorHandler.setQueuePolicy({ maxSize: 1, drop: 'oldest' })
+    errorHandler.attach(observer)
+
+    // Act
+    for (const name of ['First', 'Second', 'Third']) {
+      errorHandler.notify(new AppError(name, 'message'))
+    }
+
+    await errorHandler.flush()
+
+    errorHandler.setQueuePolicy({})
+    errorHandler.detach(observer)
+
+    // Assert
+    assertEquals(received, ['First', 'Third'])
+  },
+})
+
+Deno.test({
+  name: 'errorHandler:crash flushes the observers before exit',
+  async fn() {
+    // Arrange
+    const steps: Array<string> = []
+    const observer = async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1))
+
+      steps.push('observer')
+    }
+    const exit = () => {
+      steps.push('exit')
+    }
+
+    errorHandler.attach(observer)
+    errorHandler.setCrashPolicy({ exit })
+
+    // Act
+    errorHandler.handleError(new Error('Technical error'))
+    await errorHandler.crash(new AppError('TypeError', 'x is undefined'))
+
+    errorHandler.setCrashPolicy(undefined)
+    errorHandler.detach(observer)
+
+    // Assert
+    assertEquals(steps, ['observer', 'exit'])
+  },
+})
+
+Deno.test({
+  name: 'ErrorHandler: a new handler has its own observers',
+  fn() {
+    // Arrange
+    const received: Array<string> = []
+    const observer = (error: AppError) => {
+      received.push(`default ${error.name}`)
+    }
+    const handler = new ErrorHandler()
+
+    errorHandler.attach(observer)
+    handler.attach((error) => {
+      received.push(`scoped ${error.name}`)
+    })
+
+    // Act
+    handler.handleError(new AppError('ResourceNotFound', 'User not found'))
+
+    errorHandler.detach(observer)
+
+    // Assert
+    assertEquals(received, ['scoped ResourceNotFound'])
+  },
+})
+
+Deno.test({
+  name: 'ErrorHandler:derive forwards the notifications to the parent',
+  async fn() {
+    // Arrange
+    const received: Array<string> = []
+    const parent = new ErrorHandler()
+    const child = parent.derive()
+
+    parent.attach(async (error) => {
+      await new Promise((resolve) => setTimeout(resolve, 1))
+
+      received.push(`parent ${error.name}`)
+    })
+    child.attach((error) => {
+      received.push(`child ${error.name}`)
+    })
+
+    // Act
+    child.handleError(new AppError('ResourceNotFound', 'User not found'))
+    parent.handleError(new AppError('Conflict', 'Email already used'))
+
+    await child.flush()
+
+    // Assert
+    assertEquals(received, [
+      'child ResourceNotFound',
+      'parent ResourceNotFound',
+      'parent Conflict',
+    ])
+  },
+})
+
+Deno.test({
+  name: 'ErrorHandler:derive copies the policies of the parent',
+  fn() {
+    // Arrange
+    const parent = new ErrorHandler()
+
+    parent.setContextProvider(() => ({ requestId: 'parent' }))
+
+    const child = parent.derive()
+
+    // Act
+    parent.setContextProvider(() => ({ requestId: 'changed' }))
+
+    const childError = child.convertUnknownToAppError(new Error('test'))
+
+    child.setContextProvider(undefined)
+
+    const parentError = parent.convertUnknownToAppError(new Error('test'))
+
+    // Assert
+    assertEquals(childError.context, { requestId: 'parent' })
+    assertEquals(parentError.context, { requestId: 'changed' })
+  },
+})
+
+Deno.test({
+  name: 'ErrorHandler: channelPrefix names the diagnostics channels',
+  fn() {
+    // Arrange
+    const messages: Array<string> = []
+    const onTenant = (message: unknown) => {
+      messages.push(
+        `tenant ${(message as { appError: AppError }).appError.name}`,
+      )
+    }
+    const onDefault = (message: unknown) => {
+      messages.push(
+        `default ${(message as { appError: AppError }).appError.name}`,
+      )
+    }
+    const handler = errorHandler.derive({ channelPrefix: 'tenant-a' })
+
+    diagnostics_channel.subscribe('tenant-a:handleError', onTenant)
+    diagnostics_channel.subscribe('error-handling:handleError', onDefault)
+
+    // Act
+    handler.handleError(new AppError('ResourceNotFound', 'User not found'))
+
+    diagnostics_channel.unsubscribe('tenant-a:handleError', onTenant)
+    diagnostics_channel.unsubscribe('error-handling:handleError', onDefault)
+
+    // Assert
+    assertEquals(messages, ['tenant ResourceNotFound'])
+  },
+})
+
+Deno.test({
+  name: 'ErrorHandler: without channelPrefix the channels are not shared',
+  fn() {
+    // Arrange
+    const messages: Array<string> = []
+    const onDefault = (message: unknown) => {
+      messages.push((message as { appError: AppError }).appError.name)
+    }
+    const handler = new ErrorHandler()
+    const child = handler.derive()
+
+    diagnostics_channel.subscribe('error-handling:handleError', onDefault)
+    using _handler = handler.channels.handleError.subscribe(({ appError }) => {
+      messages.push(`handler ${appError.name}`)
+    })
+
+    // Act
+    handler.handleError(new AppError('ResourceNotFound', 'User not found'))
+    child.handleError(new AppError('Conflict', 'Email already used'))
+
+    diagnostics_channel.unsubscribe('error-handling:handleError', onDefault)
+
+    // Assert
+    assertEquals(messages, ['handler ResourceNotFound'])
+    assertEquals(
+      errorHandler.channels.handleError.name,
+      'error-handling:handleError',
+    )
+    assertNotEquals(
+      child.channels.handleError.name,
+      handler.channels.handleError.name,
+    )
+  },
+})
+
+Deno.test({
+  name: 'ErrorHandler:handleError works detached',
+  async fn() {
+    // Arrange
+    const received: Array<string> = []
+    const handler = new ErrorHandler()
+
+    handler.attach((error) => {
+      received.push(error.message)
+    })
+
+    // Act
+    await Promise.reject(new Error('Rejected')).catch(handler.handleError)
+
+    // Assert
+    assertEquals(received, ['Rejected'])
+  },
+})
+
 Deno.test({
   name: 'error-handling:error diagnostics_channel',
   fn() {
@@ -24,9 +24,46 @@
  * import { HTTPStatus } from "jsr:@oneday/http-status";
  *
  * // client throwing an exception
- * throw new AppError(commonErrors.resourceNotFound,'further explanation', true, HTTPStatus.NotFound);
+ * throw new AppError('resourceNotFound', 'further explanation', true, HTTPStatus.NotFound);
  * ```
  *
+ * ### Error codes registry
+ *
+ * Declare the error codes once with their default message, HTTP status, operational flag and translation key,
+ * and throw them with typed factories. A code declared twice throws, `catalog` lists the declared codes for documentation.
+ *
+ * ```typescript ignore
+ * import { errorRegistry } from 'jsr:@oneday/error-handling';
+ * import { HTTPStatus } from "jsr:@oneday/http-status";
+ *
+ * export const commonErrors = errorRegistry.define({
+ *   resourceNotFound: { message: 'Resource not found', status: HTTPStatus.NotFound, i18nKey: 'errors.resourceNotFound' },
+ * });
+ *
+ * // client throwing an exception
+ * throw commonErrors.resourceNotFound('further explanation');
+ * ```
+ *
+ * ### Converters
+ *
+ * `addConverter` registers the conversion of the errors of a library, matched with `isInstanceOf` or a predicate on their shape.
+ * The converters are tried in registration order before the generic conversion.
+ *
+ * ```typescript ignore
+ * import { AppError, errorHandler, isInstanceOf } from 'jsr:@oneday/error-handling';
+ * import { HTTPStatus } from 'jsr:@oneday/http-status';
+ *
+ * errorHandler.addConverter(
+ *   isInstanceOf(Deno.errors.NotFound),
+ *   (error) => new AppError('resourceNotFound', error.message, true, HTTPStatus.NotFound),
+ * );
+ * ```
+ *
+ * ### Cause chains and AggregateError
+ *
+ * `convertUnknownToAppError` converts the `cause` chain recursively and the sub-errors of an AggregateError into `errors`,
+ * the observers receive the root cause of wrapped failures. `causeChain` lists an error followed by its causes.
+ *
  * ## errorHandler
  *
  * Handle errors centrally
@@ -42,77 +79,197 @@
  * Consequently, the error middleware should only catch errors and forward them to the handler.
  * A typical error handling flow might be: Some module throws an error -> API router catches the error -> it propagates the error to the middleware (e.g. or to other mechanism for catching request-level error) who is responsible for catching errors -> a centralized error handler is called.
  *
- * ### Example Hono
+ * ### Request context
+ *
+ * `setContextProvider` enriches each converted AppError with a snapshot of the current request context,
+ * `@oneday/error-handling/global-context` provides the store of `@oneday/global-context`.
+ *
+ * ```typescript ignore
+ * import { errorHandler } from 'jsr:@oneday/error-handling';
+ * import { globalContextProvider } from 'jsr:@oneday/error-handling/global-context';
+ *
+ * errorHandler.setContextProvider(globalContextProvider);
+ * ```
+ *
+ * ### Async observers
+ *
+ * An observer may return a promise, each observer is isolated from the failures of the others.
+ * The notifications waiting for a busy observer are kept in a bounded queue (`setQueuePolicy`), `flush` waits for all of them.
+ *
+ * ```typescript ignore
+ * import { errorHandler } from 'jsr:@oneday/error-handling';
+ *
+ * errorHandler.attach(async (error) => {
+ *   await fetch('https://collector.example.com/errors', { method: 'POST', body: JSON.stringify(error) });
+ * });
+ *
+ * await errorHandler.flush();
+ * ```
+ *
+ * ### Fingerprints and deduplication
+ *
+ * `fingerprint` identifies the occurrences of the same failure (name, normalized stack frames and HTTP status).
+ * `setDeduplicationPolicy` notifies a fingerprint at most `limit` times within a sliding window,
+ * the suppressed occurrences are notified once with their count in `occurrences`.
+ *
+ * ```typescript ignore
+ * import { errorHandler } from 'jsr:@oneday/error-handling';
+ *
+ * errorHandler.setDeduplicationPolicy({ window: 60_000, limit: 10 });
+ * ```
+ *
+ * ### Scoped handlers
+ *
+ * `errorHandler` is the default instance. `new ErrorHandler()` has its own observers and policies,
+ * `derive` starts from the policies of a parent and forwards the notifications to its observers.
+ * Each handler has its own diagnostics channels, named after `channelPrefix` or a generated prefix.
+ *
+ * ```typescript ignore
+ * import { errorHandler, toErrorResponse } from 'jsr:@oneday/error-handling';
+ *
+ * const tenant = errorHandler.derive({ channelPrefix: 'tenant-a' });
+ *
+ * toErrorResponse(error, { errorHandler: tenant });
+ * ```
+ *
+ * ### Diagnostics channels
+ *
+ * `channels` holds the typed diagnostics channels of a handler: `convertStart`, `convertEnd`, `handleError`, `observerError`, `drop` and `error`.
+ * `subscribe` returns a disposable.
+ *
+ * ```typescript ignore
+ * import { errorHandler } from 'jsr:@oneday/error-handling';
+ *
+ * using _subscription = errorHandler.channels.handleError.subscribe(({ appError }) => {
+ *   console.log(appError.name);
+ * });
+ * ```
+ *
+ * ### Redaction
+ *
+ * `convertUnknownToAppError` copies every property of the original error, e.g. request headers or connection strings.
+ * `setRedactionPolicy` redacts the sensitive keys and values, the deep objects and the long strings
+ * before the observers and the diagnostics channels see them.
+ *
+ * ```typescript ignore
+ * import { errorHandler } from 'jsr:@oneday/error-handling';
+ *
+ * errorHandler.setRedactionPolicy({ maxDepth: 3, maxStringLength: 500 });
+ * ```
+ *
+ * ### Metrics
+ *
+ * `ErrorMetrics` counts the notified errors by name, HTTP status and operational flag, with a histogram of the occurrences
+ * over the last intervals, and renders them in the Prometheus text format.
+ *
+ * ```typescript ignore
+ * import { errorHandler, ErrorMetrics } from 'jsr:@oneday/error-handling';
+ *
+ * const metrics = new ErrorMetrics();
+ *
+ * errorHandler.attach(metrics.observer);
+ *
+ * Deno.serve((request) =>
+ *   new URL(request.url).pathname === '/metrics' ? metrics.toResponse() : new Response('OK')
+ * );
+ * ```
+ *
+ * ### Retries and circuit breaker
+ *
+ * `withRetry` retries the transient failures with an exponential backoff and jitter,
+ * `CircuitBreaker` fails fast once a dependency keeps failing. Both decide on the converted AppError with `isTransientFailure` by default
+ * (429, 502, 503, 504 and a plain thrown error like the `TypeError` of a fetch, never another 4xx)
+ * and publish the attempts and the state changes on the `retry` and `circuitState` channels.
+ * A fetch resolves with an error response, throw it as an AppError to retry it.
+ *
+ * ```typescript ignore
+ * import { AppError, CircuitBreaker, withRetry } from 'jsr:@oneday/error-handling';
+ *
+ * const payments = new CircuitBreaker({ name: 'payments' });
+ *
+ * const charge = async () => {
+ *   const response = await fetch('https://payments.example.com/charges', { method: 'POST' });
+ *
+ *   if (!response.ok) {
+ *     throw new AppError('paymentFailed', response.statusText, true, response.status);
+ *   }
+ *
+ *   return response;
+ * };
+ *
+ * const response = await withRetry(
+ *   () => payments.execute(charge),
+ *   { retries: 3, signal: AbortSignal.timeout(10_000) },
+ * );
+ * ```
+ *
+ * ### Uncaught exceptions and unhandled rejections
+ *
+ * `installGlobalHandlers` forwards the uncaught exceptions and unhandled rejections to `handleError` and returns a disposable to remove the handlers.
+ *
+ * ```typescript ignore
+ * import { errorHandler } from 'jsr:@oneday/error-handling';
+ *
+ * errorHandler.installGlobalHandlers();
+ * ```
+ *
+ * ### Crash policy
+ *
+ * With `setCrashPolicy`, a non-operational error runs the shutdown hooks registered with `addShutdownHook` and flushes the observers
+ * within a timeout, then exits the process with the configured code.
  *
  * ```typescript ignore
- * import * as logger from 'jsr:@std/log';
  * import { errorHandler } from 'jsr:@oneday/error-handling';
- * import { Hono, type Context } from 'hono';
+ *
+ * const server = Deno.serve(handler);
+ *
+ * errorHandler.addShutdownHook(() => server.shutdown());
+ * errorHandler.setCrashPolicy({ exitCode: 1, timeout: 5000 });
+ * ```
+ *
+ * ### Example Deno.serve
+ *
+ * ```typescript ignore
+ * import * as logger from 'jsr:@std/log';
+ * import { errorHandler, withErrorHandling } from 'jsr:@oneday/error-handling';
  *
  * // Attach logger to errorHandler
  * errorHandler.attach(logger.error);
  *
- * // Hono middleware
- * export const defineErrorHonoMiddleware = (err: Error, c: Context): Response => {
- *  const appError = errorHandler.convertUnknownToAppError(err);
- *
- *  return c.json({
- *     error: {
- *       code: appError.isOperational
- *          ? appError.name
- *          : 'unknown-error',
- *       message: appError.isOperational
- *          ? appError.message
- *          : 'technical-error'
- *     }
- *   },
- *   errorHandler.handleError(appError)
- *  );
- * });
+ * Deno.serve(withErrorHandling((request) => router(request)));
+ * ```
+ *
+ * ### Example Hono
+ *
+ * ```typescript ignore
+ * import * as logger from 'jsr:@std/log';
+ * import { errorHandler, honoErrorHandler } from 'jsr:@oneday/error-handling';
+ * import { Hono } from 'hono';
+ *
+ * // Attach logger to errorHandler
+ * errorHandler.attach(logger.error);
  *
  * const app = new Hono();
  *
- * app.onError(defineErrorHonoMiddleware);
+ * app.onError(honoErrorHandler());
  *
  * export default app;
  * ```
  *
- * ### Example Koa
+ * ### Example Oak / Koa
  *
  * ```typescript ignore
  * import * as logger from 'jsr:@std/log';
- * import { errorHandler } from 'jsr:@oneday/error-handling';
- * import Koa, { Context, Next } from 'npm:koa';
+ * import { errorHandler, koaErrorMiddleware } from 'jsr:@oneday/error-handling';
+ * import Koa from 'npm:koa';
  *
  * // Attach logger to errorHandler
  * errorHandler.attach(logger.error);
  *
- * export async function defineErrorHandlingKoaMiddleware (
- *  ctx: Context,
- *  next; Next
- * ): Promise<void> {
- *  try {
- *     await next()
- *  } catch (error) {
- *    const appError = errorHandler.convertUnknownToAppError(err);
- *
- *    ctx.response.status = errorHandler.handleError(appError);
- *    ctx.response.body = {
- *       error: {
- *         code: appError.isOperational
- *          ? appError.name
- *          : 'unknown-error',
- *         message: appError.isOperational
- *          ? appError.message
- *          : 'technical-error',
- *       }
- *     }
- *  }
- * };
- *
  * const app = new Koa();
  *
- * app.onError(defineErrorHandlingKoaMiddleware);
+ * // First middleware, it catches the errors of the next ones
+ * app.use(koaErrorMiddleware());
  *
  * export default app;
  * ```
@@ -121,37 +278,31 @@
  *
  * ```typescript ignore
  * import * as logger from 'jsr:@std/log';
- * import { errorHandler } from 'jsr:@oneday/error-handling';
+ * import { errorHandler, problemContentType, toProblemDetails } from 'jsr:@oneday/error-handling';
  * import express from 'npm:express';
  *
  * // Attach logger to errorHandler
  * errorHandler.attach(logger.error);
  *
- * export async function defineErrorHandlingExpressMiddleware (
+ * export function defineErrorHandlingExpressMiddleware (
  *  error: unknown,
- *  _req: express.Request,
+ *  req: express.Request,
  *  res: express.Response,
  *  _next: express.NextFunction
  * ): void {
- *    const appError = errorHandler.convertUnknownToAppError(err);
+ *    const appError = errorHandler.convertUnknownToAppError(error);
  *
  *    res
  *      .status(errorHandler.handleError(appError))
- *      .json({
- *        error: {
- *          code: appError.isOperational
- *            ? appError.name
- *            : 'unknown-error',
- *          message: appError.isOperational
- *            ? appError.message
- *            : 'technical-error',
- *          }
- *      })
- *      .end();
+ *      .type(problemContentType)
+ *      .json(toProblemDetails(appError, { instance: req.path }));
  * };
  *
  * const app = express();
  *
+ * // Last middleware
+ * app.use(defineErrorHandlingExpressMiddleware);
+ *
  * export default app;
  * ```
  *
@@ -206,310 +357,105 @@
  *  process.exit(1);
  * })
  * ```
- */
-
-import { HTTPStatus } from '@oneday/http-status'
-import { inspect } from 'node:util'
-import process from 'node:process'
-import diagnostics_channel from 'node:diagnostics_channel'
-
-export type Observer = (value: AppError) => void
-
-const channels = {
-  /**
-   * ```ts
-   * import diagnostics_channel from 'node:diagnostics_channel'
-   *
-   * diagnostics_channel.subscribe('error-handling:handleError', (message, name) => {
-   *  console.log(message, name)
-   * })
-   * ```
-   */
-  handleError: diagnostics_channel.channel('error-handling:handleError'),
-  /**
-   * ```ts
-   * import diagnostics_channel from 'node:diagnostics_channel'
-   *
-   * diagnostics_channel.subscribe('error-handling:error', (message, name) => {
-   *  console.log(message, name)
-   * })
-   * ```
-   */
-  error: diagnostics_channel.channel('error-handling:error'),
-}
-
-/**
- * Use only the built-in Error object - centralized error object that derives from Error
  *
- * Some libraries throw errors as a string or as some custom type – this complicates the error handling logic and the interoperability between modules.
- * Instead, create app error object/class that extends the built-in Error object and use it whenever rejecting, throwing or emitting an error.
- * The app error should add useful imperative properties like the error name/code and isOperational.
- * By doing so, all errors have a unified structure and support better error handling.
+ * ## Problem details
  *
- * # Example
+ * `toProblemDetails` serializes an AppError into an `application/problem+json` document (RFC 9457),
+ * a non-operational error is masked automatically. `fromProblemDetails` parses a received document back into an AppError.
  *
- * ```typescript ignore
- * import { AppError } from 'jsr:@oneday/error-handling';
- * import { HTTPStatus } from "jsr:@oneday/http-status";
+ * ### Example
  *
- * // client throwing an exception
- * throw new AppError(commonErrors.resourceNotFound,'further explanation', true, HTTPStatus.NotFound)
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert';
+ * import { AppError, toProblemDetails } from 'jsr:@oneday/error-handling';
+ * import { HTTPStatus } from 'jsr:@oneday/http-status';
+ *
+ * assertEquals(
+ *   toProblemDetails(new AppError('resourceNotFound', 'User 2 not found', true, HTTPStatus.NotFound)),
+ *   { type: 'about:blank', title: 'resourceNotFound', status: 404, detail: 'User 2 not found' },
+ * );
  * ```
  */
 
-export class AppError extends Error {
-  /**
-   * @param name Error Name
-   * @param message further explanation
-   * @param isOperational operational 's error - default false
-   * @param HttpStatus Http status code
-   */
-  constructor(
-    public override name: string,
-    public override message: string,
-    public isOperational = false,
-    public HttpStatus: HTTPStatus = HTTPStatus.InternalServerError,
-  ) {
-    super(message)
-
-    Object.setPrototypeOf(this, new.target.prototype) // restore prototype chain
-
-    Error.captureStackTrace(this)
-  }
-}
-
-export class ErrorHandler {
-  static #instance: ErrorHandler
-  #observers: Array<Observer> = []
-
-  // Prevent new with private constructor
-  private constructor() {
-    /** */
-  }
-
-  static getInstance(): ErrorHandler {
-    if (!ErrorHandler.#instance) {
-      ErrorHandler.#instance = new ErrorHandler()
-    }
-
-    return ErrorHandler.#instance
-  }
-
-  /**
-   * # Example
-   *
-   * ```ts
-   * import * as logger from 'jsr:@std/log';
-   * import { errorHandler } from 'jsr:@oneday/error-handling';
-   *
-   * errorHandler.attach(logger.error)
-   * ```
-   */
-  attach(func: Observer) {
-    if (typeof func !== 'function' || this.#observers.includes(func)) {
-      return
-    }
-
-    this.#observers.push(func)
-  }
-
-  /**
-   * # Example
-   *
-   * ```ts
-   * import * as logger from 'jsr:@std/log';
-   * import { errorHandler } from 'jsr:@oneday/error-handling';
-   *
-   * errorHandler.detach(logger.error)
-   * ```
-   */
-  detach(func: Observer) {
-    this.#observers = this.#observers.filter((observer) => observer !== func)
-  }
-
-  /**
-   * # Example
-   *
-   * ```typescript ignore
-   * import * as logger from 'jsr:@std/log';
-   * import { errorHandler } from 'jsr:@oneday/error-handling';
-   *
-   * errorHandler.attach(logger.error)
-   *
-   * errorHandler.notify(new AppError('resourceNotFound','further explanation'))
-   *
-   * // stdout: ERROR resourceNotFound: further explanation
-   * ```
-   */
-  notify(data: AppError) {
-    for (const observer of this.#observers) {
-      observer(data)
-    }
-  }
-
-  #getObjectIfNotAlreadyObject(target: Readonly<unknown>): object {
-    if (typeof target === 'string') {
-      return {
-        message: target,
-      }
-    }
-
-    if (typeof target === 'object' && target !== null) {
-      return target
-    }
-
-    return {}
-  }
-
-  #getOneOfTheseProperties = <ReturnType>(
-    object: Readonly<object>,
-    possibleExistingProperties: Readonly<string[]>,
-    defaultValue: ReturnType,
-  ): ReturnType => {
-    for (const property of possibleExistingProperties) {
-      if (property in object) {
-        return Reflect.get(object, property)
-      }
-    }
-
-    return defaultValue
-  }
-
-  /**
-   * Convert unknown to AppError
-   *
-   * # Example
-   *
-   * ```ts
-   * import { assertInstanceOf } from 'jsr:@std/assert';
-   * import { errorHandler, AppError } from 'jsr:@oneday/error-handling';
-   *
-   * assertInstanceOf(errorHandler.convertUnknownToAppError(new Error('test')), AppError);
-   * assertInstanceOf(errorHandler.convertUnknownToAppError({ message: 'further explanation'}), AppError);
-   * assertInstanceOf(errorHandler.convertUnknownToAppError('I am a string'), AppError);
-   * ```
-   */
-  convertUnknownToAppError(
-    errorToHandle: Readonly<unknown>,
-  ): AppError & object {
-    if (errorToHandle instanceof AppError) {
-      return errorToHandle
-    }
-    const errorToEnrich: object = ErrorHandler.#instance
-      .#getObjectIfNotAlreadyObject(
-        errorToHandle,
-      )
-
-    const message = ErrorHandler.#instance.#getOneOfTheseProperties(
-      errorToEnrich,
-      ['message', 'reason', 'description'],
-      'Unknown error',
-    )
-
-    const name = ErrorHandler.#instance.#getOneOfTheseProperties(
-      errorToEnrich,
-      ['name', 'code'],
-      'unknown-error',
-    )
-
-    const httpStatus = ErrorHandler.#instance.#getOneOfTheseProperties(
-      errorToEnrich,
-      ['HTTPStatus', 'statusCode', 'status'],
-      HTTPStatus.InternalServerError,
-    )
-
-    const isOperational = ErrorHandler.#instance.#getOneOfTheseProperties<
-      boolean
-    >(
-      errorToEnrich,
-      ['isOperational', 'operational'],
-      false,
-    )
-
-    const stackTrace = ErrorHandler.#instance.#getOneOfTheseProperties<
-      string | undefined
-    >(
-      errorToEnrich,
-      ['stack'],
-      undefined,
-    )
-
-    const standardError = new AppError(name, message, isOperational, httpStatus)
-    standardError.stack = stackTrace
-
-    const standardErrorWithOriginProperties = Object.assign(
-      standardError,
-      errorToEnrich,
-    )
-
-    return standardErrorWithOriginProperties
-  }
-
-  /**
-   *  Handle errors centrally
-   *
-   * Error handling logic such as logging, deciding whether to crash and monitoring metrics should be encapsulated in a dedicated and centralized object
-   * that all entry-points (e.g. APIs, cron jobs, scheduled jobs) call when an error comes in
-   *
-   * # Example 1
-   *
-   * ```typescript ignore
-   * import { errorHandler } from 'jsr:@oneday/error-handling';
-   *
-   * try {
-   *    ...
-   * } catch(error){
-   *  errorHandler.handleError(error);
-   * }
-   * ```
-   *
-   * # Example 2 - NodeJs
-   *
-   * ```typescript ignore
-   * import { errorHandler } from 'jsr:@oneday/error-handling';
-   *
-   * process.on("uncaughtException", (error:Error) => {
-   *    errorHandler.handleError(error);
-   * });
-   *
-   * process.on("unhandledRejection", (reason) => {
-   *    errorHandler.handleError(reason);
-   * });
-   * ```
-   *
-   *  # Example 3 - Deno
-   *
-   * ```typescript ignore
-   * import { errorHandler } from 'jsr:@oneday/error-handling';
-   *
-   * globalThis.addEventListener("unhandledrejection", (e) => {
-   *    errorHandler.handleError(e);
-   *
-   *    e.preventDefault();
-   * });
-   * ```
-   */
-  handleError(errorToHandle: Readonly<unknown>): HTTPStatus {
-    try {
-      const appError = ErrorHandler.#instance.convertUnknownToAppError(
-        errorToHandle,
-      )
-
-      channels.handleError.publish({ errorToHandle, appError })
-
-      ErrorHandler.#instance.notify(appError)
-
-      return appError.HttpStatus
-    } catch (handlingError) {
-      channels.error.publish({ handlingError, errorToHandle })
-
-      process.stdout.write('Error handler failed')
-      process.stdout.write(inspect(handlingError))
-      process.stdout.write(inspect(errorToHandle))
-
-      return HTTPStatus.InternalServerError
-    }
-  }
-}
-
-export const errorHandler: ErrorHandler = ErrorHandler.getInstance()
+export {
+  type AdapterOptions,
+  honoErrorHandler,
+  koaErrorMiddleware,
+  toErrorResponse,
+  withErrorHandling,
+} from './adapters.ts'
+export {
+  AppError,
+  type AppErrorOptions,
+  causeChain,
+  type ErrorContext,
+} from './app-error.ts'
+export {
+  type CircuitState,
+  type CircuitStateMessage,
+  type ConvertEndMessage,
+  type ConvertStartMessage,
+  type DropMessage,
+  type ErrorHandlerChannels,
+  ErrorHandlingChannel,
+  type HandleErrorMessage,
+  type HandlingErrorMessage,
+  type ObserverErrorMessage,
+  type RetryMessage,
+} from './channels.ts'
+export {
+  type ErrorConverter,
+  type ErrorMatcher,
+  isInstanceOf,
+} from './converters.ts'
+export {
+  type ContextProvider,
+  type CrashPolicy,
+  type DeduplicationPolicy,
+  ErrorHandler,
+  errorHandler,
+  type ErrorHandlerOptions,
+  type GlobalHandlersOptions,
+  type Observer,
+  type QueuePolicy,
+  type ShutdownHook,
+} from './error-handler.ts'
+export { fingerprint, normalizeStack } from './fingerprint.ts'
+export {
+  defaultRedactedKeys,
+  defaultRedactedValues,
+  redact,
+  type RedactionPolicy,
+  redactProperties,
+} from './redaction.ts'
+export {
+  type ErrorCounter,
+  type ErrorInterval,
+  ErrorMetrics,
+  type ErrorMetricsOptions,
+  metricsContentType,
+} from './metrics.ts'
+export {
+  fromProblemDetails,
+  problemContentType,
+  type ProblemDetails,
+  type ProblemDetailsOptions,
+  toProblemDetails,
+  toProblemResponse,
+} from './problem-details.ts'
+export {
+  CircuitBreaker,
+  type CircuitBreakerOptions,
+  isRetryable,
+  isTransientFailure,
+  type RetryOptions,
+  withRetry,
+} from './resilience.ts'
+export {
+  type ErrorCatalogEntry,
+  type ErrorDefinition,
+  type ErrorFactories,
+  ErrorRegistry,
+  errorRegistry,
+  type RegisteredAppError,
+} from './registry.ts'
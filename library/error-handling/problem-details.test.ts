@@ -0,0 +1,203 @@
+import { HTTPStatus } from '@oneday/http-status'
+import { assertEquals, assertInstanceOf, assertObjectMatch } from '@std/assert'
+import {
+  AppError,
+  errorHandler,
+  fromProblemDetails,
+  toProblemDetails,
+  toProblemResponse,
+} from './mod.ts'
+
+Deno.test({
+  name: 'toProblemDetails: operational error',
+  fn() {
+    const appError = new AppError(
+      'ResourceNotFound',
+      'User resource not found',
+      true,
+      HTTPStatus.NotFound,
+    )
+
+    assertEquals(toProblemDetails(appError), {
+      type: 'about:blank',
+      title: 'ResourceNotFound',
+      status: HTTPStatus.NotFound,
+      detail: 'User resource not found',
+    })
+
+    assertEquals(
+      toProblemDetails(appError, {
+        typeBaseUrl: 'https://example.com/problems/',
+        instance: '/users/2',
+      }),
+      {
+        type: 'https://example.com/problems/ResourceNotFound',
+        title: 'ResourceNotFound',
+        status: HTTPStatus.NotFound,
+        detail: 'User resource not found',
+        instance: '/users/2',
+      },
+    )
+  },
+})
+
+Deno.test({
+  name: 'toProblemDetails: non-operational error is masked',
+  fn() {
+    const appError = errorHandler.convertUnknownToAppError(
+      new TypeError('Cannot read properties of undefined'),
+    )
+
+    assertEquals(
+      toProblemDetails(appError, {
+        typeBaseUrl: 'https://example.com/problems/',
+      }),
+      {
+        type: 'about:blank',
+        title: 'unknown-error',
+        status: HTTPStatus.InternalServerError,
+        detail: 'technical-error',
+      },
+    )
+  },
+})
+
+Deno.test({
+  name: 'toProblemDetails: extensions never override the standard members',
+  fn() {
+    const appError = new AppError(
+      'Conflict',
+      'Email already used',
+      true,
+      HTTPStatus.Conflict,
+    )
+
+    assertEquals(
+      toProblemDetails(appError, {
+        extensions: { requestId: '1234', status: 200, title: 'OK' },
+      }),
+      {
+        requestId: '1234',
+        type: 'about:blank',
+        title: 'Conflict',
+        status: HTTPStatus.Conflict,
+        detail: 'Email already used',
+      },
+    )
+  },
+})
+
+Deno.test({
+  name: 'toProblemResponse: status, content type and body',
+  async fn() {
+    const response = toProblemResponse(
+      new AppError('Conflict', 'Email already used', true, HTTPStatus.Conflict),
+      { instance: '/users' },
+    )
+
+    assertEquals(response.status, HTTPStatus.Conflict)
+    assertEquals(
+      response.headers.get('content-type'),
+      'application/problem+json',
+    )
+    assertEquals(await response.json(), {
+      type: 'about:blank',
+      title: 'Conflict',
+      status: HTTPStatus.Conflict,
+      detail: 'Email already used',
+      instance: '/users',
+    })
+  },
+})
+
+Deno.test({
+  name: 'fromProblemDetails: round trip',
+  fn() {
+    const appError = new AppError(
+      'ResourceNotFound',
+      'User resource not found',
+      true,
+      HTTPStatus.NotFound,
+    )
+
+    const parsed = fromProblemDetails(
+      JSON.parse(JSON.stringify(toProblemDetails(appError, {
+        instance: '/users/2',
+        extensions: { requestId: '1234' },
+      }))),
+    )
+
+    assertInstanceOf(parsed, AppError)
+    assertObjectMatch(parsed, {
+      name: 'ResourceNotFound',
+      message: 'User resource not found',
+      isOperational: true,
+      HttpStatus: HTTPStatus.NotFound,
+      type: 'about:blank',
+      instance: '/users/2',
+      requestId: '1234',
+    })
+  },
+})
+
+Deno.test({
+  name: 'fromProblemDetails: masked document is non-operational',
+  fn() {
+    assertObjectMatch(
+      fromProblemDetails({
+        type: 'about:blank',
+        title: 'unknown-error',
+        status: 500,
+        detail: 'technical-error',
+      }),
+      {
+        name: 'unknown-error',
+        message: 'technical-error',
+        isOperational: false,
+        HttpStatus: HTTPStatus.InternalServerError,
+      },
+    )
+  },
+})
+
+Deno.test({
+  name: 'fromProblemDetails: invalid document',
+  fn() {
+    for (const document of [undefined, null, 'Not found', 404, {}]) {
+      assertObjectMatch(fromProblemDetails(document), {
+        name: 'unknown-error',
+        message: 'unknown-error',
+        isOperational: false,
+        HttpStatus: HTTPStatus.InternalServerError,
+      })
+    }
+
+    assertObjectMatch(fromProblemDetails({ title: 'Conflict', status: 409 }), {
+      name: 'Conflict',
+      message: 'Conflict',
+      isOperational: true,
+      HttpStatus: HTTPStatus.Conflict,
+    })
+  },
+})
+
+Deno.test({
+  name: 'fromProblemDetails: members do not shadow AppError properties',
+  fn() {
+    const parsed = fromProblemDetails({
+      title: 'Conflict',
+      status: 409,
+      isOperational: false,
+      HttpStatus: 200,
+      stack: 'forged stack',
+      cause: 'forged cause',
+      errors: [{ detail: 'Email is required' }],
+    })
+
+    assertEquals(parsed.isOperational, true)
+    assertEquals(parsed.HttpStatus, HTTPStatus.Conflict)
+    assertEquals(parsed.stack === 'forged stack', false)
+    assertEquals(parsed.cause, undefined)
+    assertEquals(parsed.errors, undefined)
+  },
+})
@@ -0,0 +1,189 @@
+import { HTTPStatus } from '@oneday/http-status'
+import { AppError } from './app-error.ts'
+
+/**
+ * Media type of a problem details document
+ */
+export const problemContentType = 'application/problem+json'
+
+/**
+ * Problem details document of RFC 9457, extension members are added next to the standard members
+ */
+export type ProblemDetails = {
+  /** URI reference identifying the problem type, `about:blank` by default */
+  type: string
+  /** short summary of the problem type, the name of the AppError */
+  title: string
+  /** HTTP status code */
+  status: number
+  /** explanation specific to this occurrence, the message of the AppError */
+  detail: string
+  /** URI reference identifying this occurrence */
+  instance?: string
+  [extension: string]: unknown
+}
+
+/**
+ * Options of `toProblemDetails`
+ */
+export type ProblemDetailsOptions = {
+  /** base URI of the problem types, the type is the base followed by the error name */
+  typeBaseUrl?: string
+  /** URI reference identifying this occurrence, e.g. the request path */
+  instance?: string
+  /** extension members, they never override the standard members */
+  extensions?: Readonly<Record<string, unknown>>
+}
+
+/**
+ * Serialize an AppError into a problem details document (RFC 9457).
+ * A non-operational error is masked: its name and message never leave the process.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert';
+ * import { AppError, toProblemDetails } from 'jsr:@oneday/error-handling';
+ * import { HTTPStatus } from 'jsr:@oneday/http-status';
+ *
+ * const options = { typeBaseUrl: 'https://example.com/problems/', instance: '/users/2' };
+ *
+ * assertEquals(
+ *   toProblemDetails(new AppError('resourceNotFound', 'User 2 not found', true, HTTPStatus.NotFound), options),
+ *   {
+ *     type: 'https://example.com/problems/resourceNotFound',
+ *     title: 'resourceNotFound',
+ *     status: 404,
+ *     detail: 'User 2 not found',
+ *     instance: '/users/2',
+ *   },
+ * );
+ *
+ * assertEquals(
+ *   toProblemDetails(new AppError('TypeError', 'Cannot read properties of undefined'), options),
+ *   {
+ *     type: 'about:blank',
+ *     title: 'unknown-error',
+ *     status: 500,
+ *     detail: 'technical-error',
+ *     instance: '/users/2',
+ *   },
+ * );
+ * ```
+ */
+export function toProblemDetails(
+  error: Readonly<AppError>,
+  options: Readonly<ProblemDetailsOptions> = {},
+): ProblemDetails {
+  const { typeBaseUrl, instance, extensions } = options
+
+  const problem: ProblemDetails = error.isOperational
+    ? {
+      ...extensions,
+      type: typeBaseUrl === undefined
+        ? 'about:blank'
+        : `${typeBaseUrl}${error.name}`,
+      title: error.name,
+      status: error.HttpStatus,
+      detail: error.message,
+    }
+    : {
+      ...extensions,
+      type: 'about:blank',
+      title: 'unknown-error',
+      status: error.HttpStatus,
+      detail: 'technical-error',
+    }
+
+  if (instance !== undefined) {
+    problem.instance = instance
+  }
+
+  return problem
+}
+
+/**
+ * Response with the problem details document of an AppError and the `application/problem+json` content type
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert';
+ * import { AppError, toProblemResponse } from 'jsr:@oneday/error-handling';
+ * import { HTTPStatus } from 'jsr:@oneday/http-status';
+ *
+ * const response = toProblemResponse(new AppError('resourceNotFound', 'User 2 not found', true, HTTPStatus.NotFound));
+ *
+ * assertEquals(response.status, 404);
+ * assertEquals(response.headers.get('content-type'), 'application/problem+json');
+ * assertEquals((await response.json()).detail, 'User 2 not found');
+ * ```
+ */
+export function toProblemResponse(
+  error: Readonly<AppError>,
+  options?: Readonly<ProblemDetailsOptions>,
+): Response {
+  return new Response(JSON.stringify(toProblemDetails(error, options)), {
+    status: error.HttpStatus,
+    headers: { 'content-type': problemContentType },
+  })
+}
+
+// Optional members of AppError, absent from a new instance
+const appErrorMembers = ['cause', 'errors', 'context', 'occurrences']
+
+/**
+ * Parse a received problem details document back into an AppError.
+ * The title becomes the name, the detail the message and the status the HttpStatus,
+ * `type`, `instance` and the extension members are kept as properties, unless they shadow a property of the AppError.
+ * A masked document (`unknown-error`) is a non-operational error.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals, assertInstanceOf } from 'jsr:@std/assert';
+ * import { AppError, fromProblemDetails } from 'jsr:@oneday/error-handling';
+ *
+ * const appError = fromProblemDetails({
+ *   type: 'https://example.com/problems/resourceNotFound',
+ *   title: 'resourceNotFound',
+ *   status: 404,
+ *   detail: 'User 2 not found',
+ *   userId: '2',
+ * });
+ *
+ * assertInstanceOf(appError, AppError);
+ * assertEquals(appError.name, 'resourceNotFound');
+ * assertEquals(appError.message, 'User 2 not found');
+ * assertEquals(appError.HttpStatus, 404);
+ * assertEquals(appError.isOperational, true);
+ * assertEquals(Reflect.get(appError, 'userId'), '2');
+ * ```
+ */
+export function fromProblemDetails(document: unknown): AppError {
+  const {
+    title,
+    status,
+    detail,
+    ...members
+  } = typeof document === 'object' && document !== null
+    ? document as Readonly<Record<string, unknown>>
+    : {}
+
+  const name = typeof title === 'string' ? title : 'unknown-error'
+
+  const appError = new AppError(
+    name,
+    typeof detail === 'string' ? detail : name,
+    name !== 'unknown-error',
+    typeof status === 'number' ? status : HTTPStatus.InternalServerError,
+  )
+
+  for (const [key, value] of Object.entries(members)) {
+    if (!(key in appError) && !appErrorMembers.includes(key)) {
+      Reflect.set(appError, key, value)
+    }
+  }
+
+  return appError
+}
@@ -0,0 +1,221 @@
+import { assertEquals, assertStrictEquals } from '@std/assert'
+import diagnostics_channel from 'node:diagnostics_channel'
+import { AppError, errorHandler, redact } from './mod.ts'
+
+Deno.test({
+  name: 'redact: sensitive keys at any depth',
+  fn() {
+    assertEquals(
+      redact({
+        request: {
+          headers: { Authorization: 'Basic dXNlcjpwYXNz', cookie: 'sid=1' },
+          body: [{ password: 'p4ss', email: 'jane@example.com' }],
+        },
+      }),
+      {
+        request: {
+          headers: { Authorization: '[REDACTED]', cookie: '[REDACTED]' },
+          body: [{ password: '[REDACTED]', email: 'jane@example.com' }],
+        },
+      },
+    )
+  },
+})
+
+Deno.test({
+  name: 'redact: custom keys, values and replacement',
+  fn() {
+    assertEquals(
+      redact(
+        { iban: 'FR7630006000011234567890189', note: 'card 4111111111111111' },
+        { keys: ['IBAN'], values: [/\d{16}/], replacement: '***' },
+      ),
+      { iban: '***', note: 'card ***' },
+    )
+  },
+})
+
+Deno.test({
+  name: 'redact: connection strings and bearer tokens',
+  fn() {
+    assertEquals(
+      redact(
+        'connect postgres://admin:s3cr3t@db/app failed with Bearer abc.def-ghi',
+      ),
+      'connect postgres://[REDACTED]db/app failed with [REDACTED]',
+    )
+  },
+})
+
+Deno.test({
+  name: 'redact: depth, length and cycles',
+  fn() {
+    const circular: Record<string, unknown> = { name: 'loop' }
+    circular.self = circular
+
+    assertEquals(
+      redact(
+        { a: { b: { c: 'deep' } }, long: 'abcdef', circular },
+        { maxDepth: 2, maxStringLength: 3 },
+      ),
+      {
+        a: { b: '[Truncated]' },
+        long: 'abc…',
+        circular: { name: 'loo…', self: '[Circular]' },
+      },
+    )
+  },
+})
+
+Deno.test({
+  name: 'redact: headers and errors are copied, the value is not modified',
+  fn() {
+    const headers = new Headers({ authorization: 'Bearer abc', accept: '*/*' })
+    const date = new Date(0)
+    const value = { headers, date, error: new Error('token=abc') }
+
+    assertEquals(redact(value, { values: [/token=\w+/] }), {
+      headers: { accept: '*/*', authorization: '[REDACTED]' },
+      date,
+      error: { name: 'Error', message: '[REDACTED]' },
+    })
+    assertEquals(headers.get('authorization'), 'Bearer abc')
+  },
+})
+
+Deno.test({
+  name: 'errorHandler:setRedactionPolicy redacts the converted error',
+  fn() {
+    // Arrange
+    const error = Object.assign(
+      new Error('Cannot connect to postgres://admin:s3cr3t@db/app'),
+      { config: { host: 'db', password: 's3cr3t' } },
+    )
+
+    errorHandler.setRedactionPolicy({})
+
+    // Act
+    const appError = errorHandler.convertUnknownToAppError(error)
+
+    errorHandler.setRedactionPolicy(undefined)
+
+    // Assert
+    assertEquals(
+      appError.message,
+      'Cannot connect to postgres://[REDACTED]db/app',
+    )
+    assertEquals(appError.stack?.includes('s3cr3t'), false)
+    assertEquals(Reflect.get(appError, 'config'), {
+      host: 'db',
+      password: '[REDACTED]',
+    })
+    assertEquals(error.config.password, 's3cr3t')
+  },
+})
+
+Deno.test({
+  name: 'errorHandler:setRedactionPolicy redacts the cause chain',
+  fn() {
+    // Arrange
+    const error = new Error('Request failed', {
+      cause: { message: 'Unauthorized', headers: { authorization: 'abc' } },
+    })
+
+    errorHandler.setRedactionPolicy({})
+
+    // Act
+    const appError = errorHandler.convertUnknownToAppError(error)
+
+    errorHandler.setRedactionPolicy(undefined)
+
+    // Assert
+    assertEquals(Reflect.get(appError.cause as AppError, 'headers'), {
+      authorization: '[REDACTED]',
+    })
+  },
+})
+
+Deno.test({
+  name: 'errorHandler:setRedactionPolicy redacts the diagnostics channel',
+  fn() {
+    // Arrange
+    const messages: Array<{ errorToHandle: unknown; appError: AppError }> = []
+    const onMessage = (message: unknown) => {
+      messages.push(message as { errorToHandle: unknown; appError: AppError })
+    }
+    const error = { message: 'Forbidden', token: 'abc', status: 403 }
+
+    diagnostics_channel.subscribe('error-handling:handleError', onMessage)
+    errorHandler.setRedactionPolicy({})
+
+    // Act
+    errorHandler.handleError(error)
+
+    errorHandler.setRedactionPolicy(undefined)
+    diagnostics_channel.unsubscribe('error-handling:handleError', onMessage)
+
+    // Assert
+    assertEquals(messages[0].errorToHandle, {
+      message: 'Forbidden',
+      token: '[REDACTED]',
+      status: 403,
+    })
+    assertEquals(Reflect.get(messages[0].appError, 'token'), '[REDACTED]')
+    assertStrictEquals(error.token, 'abc')
+  },
+})
+
+Deno.test({
+  name: 'errorHandler:setRedactionPolicy redacts a copy of a handled AppError',
+  fn() {
+    // Arrange
+    const observed: Array<AppError> = []
+    const published: Array<{ errorToHandle: unknown; appError: AppError }> = []
+    const observer = (appError: AppError) => {
+      observed.push(appError)
+    }
+    const onMessage = (message: unknown) => {
+      published.push(message as { errorToHandle: unknown; appError: AppError })
+    }
+    const appError = Object.assign(
+      new AppError(
+        'DbError',
+        'Cannot connect to postgres://admin:s3cr3t@db/app',
+      ),
+      { headers: { authorization: 'abc' } },
+    )
+
+    diagnostics_channel.subscribe('error-handling:handleError', onMessage)
+    errorHandler.attach(observer)
+    errorHandler.setRedactionPolicy({})
+
+    // Act
+    errorHandler.handleError(appError)
+
+    errorHandler.setRedactionPolicy(undefined)
+    errorHandler.detach(observer)
+    diagnostics_channel.unsubscribe('error-handling:handleError', onMessage)
+
+    // Assert
+    for (
+      const redacted of [
+        observed[0],
+        published[0].appError,
+        published[0].errorToHandle as AppError,
+      ]
+    ) {
+      assertEquals(
+        redacted.message,
+        'Cannot connect to postgres://[REDACTED]db/app',
+      )
+      assertEquals(Reflect.get(redacted, 'headers'), {
+        authorization: '[REDACTED]',
+      })
+    }
+    assertEquals(
+      appError.message,
+      'Cannot connect to postgres://admin:s3cr3t@db/app',
+    )
+    assertEquals(appError.headers.authorization, 'abc')
+  },
+})
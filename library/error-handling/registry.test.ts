@@ -0,0 +1,125 @@
+import { HTTPStatus } from '@oneday/http-status'
+import {
+  assertEquals,
+  assertInstanceOf,
+  assertObjectMatch,
+  assertThrows,
+} from '@std/assert'
+import { AppError, errorHandler, ErrorRegistry } from './mod.ts'
+
+Deno.test({
+  name: 'ErrorRegistry: typed factories',
+  fn() {
+    const registry = new ErrorRegistry()
+
+    const errors = registry.define({
+      resourceNotFound: {
+        message: 'Resource not found',
+        status: HTTPStatus.NotFound,
+        i18nKey: 'errors.resourceNotFound',
+      },
+      databaseUnreachable: {
+        message: 'Database unreachable',
+        isOperational: false,
+      },
+    })
+
+    const notFound = errors.resourceNotFound()
+
+    assertInstanceOf(notFound, AppError)
+    assertObjectMatch(notFound, {
+      name: 'resourceNotFound',
+      message: 'Resource not found',
+      isOperational: true,
+      HttpStatus: HTTPStatus.NotFound,
+      i18nKey: 'errors.resourceNotFound',
+    })
+
+    assertObjectMatch(errors.databaseUnreachable('Connection refused'), {
+      name: 'databaseUnreachable',
+      message: 'Connection refused',
+      isOperational: false,
+      HttpStatus: HTTPStatus.InternalServerError,
+    })
+    assertEquals('i18nKey' in errors.databaseUnreachable(), false)
+  },
+})
+
+Deno.test({
+  name: 'ErrorRegistry: factory with cause',
+  fn() {
+    const registry = new ErrorRegistry()
+    const errors = registry.define({
+      serviceUnavailable: {
+        message: 'Service unavailable',
+        status: HTTPStatus.ServiceUnavailable,
+      },
+    })
+    const cause = errorHandler.convertUnknownToAppError(new Error('Timeout'))
+
+    assertEquals(errors.serviceUnavailable(undefined, { cause }).cause, cause)
+  },
+})
+
+Deno.test({
+  name: 'ErrorRegistry: duplicate code',
+  fn() {
+    const registry = new ErrorRegistry()
+
+    registry.define({ resourceNotFound: { message: 'Resource not found' } })
+
+    assertThrows(
+      () =>
+        registry.define({
+          conflict: { message: 'Conflict' },
+          resourceNotFound: { message: 'Not found' },
+        }),
+      Error,
+      'Error code resourceNotFound is already registered',
+    )
+
+    // Nothing registered by the failed declaration
+    assertEquals(registry.catalog().map(({ code }) => code), [
+      'resourceNotFound',
+    ])
+  },
+})
+
+Deno.test({
+  name: 'ErrorRegistry: catalog',
+  fn() {
+    const registry = new ErrorRegistry()
+
+    registry.define({
+      resourceNotFound: {
+        message: 'Resource not found',
+        status: HTTPStatus.NotFound,
+        i18nKey: 'errors.resourceNotFound',
+      },
+    })
+    registry.define({ conflict: { message: 'Conflict', status: 409 } })
+
+    const catalog = registry.catalog()
+
+    assertEquals(catalog, [
+      {
+        code: 'resourceNotFound',
+        message: 'Resource not found',
+        status: HTTPStatus.NotFound,
+        isOperational: true,
+        i18nKey: 'errors.resourceNotFound',
+      },
+      {
+        code: 'conflict',
+        message: 'Conflict',
+        status: HTTPStatus.Conflict,
+        isOperational: true,
+      },
+    ])
+
+    // The catalog is a copy
+    catalog[0].message = 'Changed'
+
+    assertEquals(registry.catalog()[0].message, 'Resource not found')
+  },
+})
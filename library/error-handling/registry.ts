@@ -0,0 +1,157 @@
+import { HTTPStatus } from '@oneday/http-status'
+import { AppError, type AppErrorOptions } from './app-error.ts'
+
+/**
+ * Declaration of an error code
+ */
+export type ErrorDefinition = {
+  /** default message */
+  message: string
+  /** Http status code, 500 by default */
+  status?: HTTPStatus
+  /** operational 's error, true by default as a declared error is a known case */
+  isOperational?: boolean
+  /** translation key of the message */
+  i18nKey?: string
+}
+
+/**
+ * Entry of the error catalog, e.g. to document the error codes of an API
+ */
+export type ErrorCatalogEntry = {
+  code: string
+  message: string
+  status: HTTPStatus
+  isOperational: boolean
+  i18nKey?: string
+}
+
+/**
+ * AppError created by a registered factory
+ */
+export type RegisteredAppError = AppError & {
+  /** translation key of the message */
+  i18nKey?: string
+}
+
+/**
+ * Factories of the declared error codes, the message overrides the default message
+ */
+export type ErrorFactories<D extends Record<string, ErrorDefinition>> = {
+  [Code in keyof D & string]: (
+    message?: string,
+    options?: Readonly<AppErrorOptions>,
+  ) => RegisteredAppError
+}
+
+/**
+ * Registry of the error codes of an application, a code is declared once
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals, assertThrows } from 'jsr:@std/assert';
+ * import { ErrorRegistry } from 'jsr:@oneday/error-handling';
+ * import { HTTPStatus } from 'jsr:@oneday/http-status';
+ *
+ * const registry = new ErrorRegistry();
+ *
+ * registry.define({
+ *   resourceNotFound: { message: 'Resource not found', status: HTTPStatus.NotFound },
+ * });
+ *
+ * assertThrows(() => registry.define({ resourceNotFound: { message: 'Not found' } }));
+ * assertEquals(registry.catalog().map(({ code }) => code), ['resourceNotFound']);
+ * ```
+ */
+export class ErrorRegistry {
+  #definitions: Map<string, ErrorCatalogEntry> = new Map()
+
+  /**
+   * Declare error codes and get their typed factories, a code already declared throws
+   *
+   * # Example
+   *
+   * ```ts
+   * import { assertEquals } from 'jsr:@std/assert';
+   * import { errorRegistry } from 'jsr:@oneday/error-handling';
+   * import { HTTPStatus } from 'jsr:@oneday/http-status';
+   *
+   * const errors = errorRegistry.define({
+   *   userNotFound: { message: 'User not found', status: HTTPStatus.NotFound, i18nKey: 'errors.user.notFound' },
+   * });
+   *
+   * const error = errors.userNotFound('User 2 not found');
+   *
+   * assertEquals(error.name, 'userNotFound');
+   * assertEquals(error.message, 'User 2 not found');
+   * assertEquals(error.HttpStatus, HTTPStatus.NotFound);
+   * assertEquals(error.isOperational, true);
+   * assertEquals(error.i18nKey, 'errors.user.notFound');
+   * ```
+   */
+  define<D extends Record<string, ErrorDefinition>>(
+    definitions: D,
+  ): ErrorFactories<D> {
+    const entries = Object.entries(definitions).map((
+      [code, definition],
+    ): ErrorCatalogEntry => ({
+      code,
+      message: definition.message,
+      status: definition.status ?? HTTPStatus.InternalServerError,
+      isOperational: definition.isOperational ?? true,
+      ...(definition.i18nKey === undefined
+        ? {}
+        : { i18nKey: definition.i18nKey }),
+    }))
+
+    // Check every code before registering any of them
+    for (const { code } of entries) {
+      if (this.#definitions.has(code)) {
+        throw new Error(`Error code ${code} is already registered`)
+      }
+    }
+
+    const factories: Record<
+      string,
+      (
+        message?: string,
+        options?: Readonly<AppErrorOptions>,
+      ) => RegisteredAppError
+    > = {}
+
+    for (const entry of entries) {
+      this.#definitions.set(entry.code, entry)
+
+      factories[entry.code] = (message = entry.message, options) => {
+        const appError: RegisteredAppError = new AppError(
+          entry.code,
+          message,
+          entry.isOperational,
+          entry.status,
+          options,
+        )
+
+        if (entry.i18nKey !== undefined) {
+          appError.i18nKey = entry.i18nKey
+        }
+
+        return appError
+      }
+    }
+
+    return factories as ErrorFactories<D>
+  }
+
+  /**
+   * Declared error codes in declaration order
+   */
+  catalog(): Array<ErrorCatalogEntry> {
+    return Array.from(this.#definitions.values(), (entry) => ({ ...entry }))
+  }
+}
+
+/**
+ * Default registry of the error codes
+ */
+export const errorRegistry: ErrorRegistry = new ErrorRegistry()
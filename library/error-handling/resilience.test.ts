@@ -0,0 +1,446 @@
+import { HTTPStatus } from '@oneday/http-status'
+import { assertEquals, assertRejects, assertStrictEquals } from '@std/assert'
+import {
+  AppError,
+  CircuitBreaker,
+  type CircuitState,
+  ErrorHandler,
+  isRetryable,
+  isTransientFailure,
+  withRetry,
+} from './mod.ts'
+
+const failure = (status: HTTPStatus) =>
+  new AppError('failure', 'Failure', true, status)
+
+Deno.test({
+  name: 'isRetryable: transient statuses only',
+  fn() {
+    assertEquals(
+      [429, 500, 502, 503, 504, 400, 404].map((status) =>
+        isRetryable(failure(status))
+      ),
+      [true, false, true, true, true, false, false],
+    )
+  },
+})
+
+Deno.test({
+  name: 'isTransientFailure: transient statuses and plain errors',
+  fn() {
+    // Arrange
+    const handler = new ErrorHandler()
+
+    // Act & Assert
+    assertEquals(
+      [429, 500, 503, 404].map((status) => isTransientFailure(failure(status))),
+      [true, false, true, false],
+    )
+    assertEquals(
+      isTransientFailure(
+        handler.convertUnknownToAppError(new TypeError('fetch failed')),
+      ),
+      true,
+    )
+  },
+})
+
+Deno.test({
+  name: 'withRetry: retries the transient failures with backoff',
+  async fn() {
+    // Arrange
+    const handler = new ErrorHandler()
+    const attempts: Array<[number, number | undefined]> = []
+
+    using _subscription = handler.channels.retry.subscribe(
+      ({ attempt, delay }) => {
+        attempts.push([attempt, delay])
+      },
+    )
+
+    // Act
+    const result = await withRetry((attempt) => {
+      if (attempt < 4) {
+        throw failure(HTTPStatus.ServiceUnavailable)
+      }
+
+      return attempt
+    }, { initialDelay: 1, jitter: false, errorHandler: handler })
+
+    // Assert
+    assertEquals(result, 4)
+    assertEquals(attempts, [[1, 1], [2, 2], [3, 4]])
+  },
+})
+
+Deno.test({
+  name: 'withRetry: full jitter capped by maxDelay',
+  async fn() {
+    // Arrange
+    const handler = new ErrorHandler()
+    const delays: Array<number | undefined> = []
+
+    using _subscription = handler.channels.retry.subscribe(({ delay }) => {
+      delays.push(delay)
+    })
+
+    // Act
+    await assertRejects(() =>
+      withRetry(() => Promise.reject(failure(HTTPStatus.TooManyRequests)), {
+        retries: 3,
+        initialDelay: 4,
+        maxDelay: 10,
+        random: () => 0.5,
+        errorHandler: handler,
+      })
+    )
+
+    // Assert
+    assertEquals(delays, [2, 4, 5, undefined])
+  },
+})
+
+Deno.test({
+  name: 'withRetry: never retries a client error',
+  async fn() {
+    // Arrange
+    let calls = 0
+
+    // Act
+    const error = await assertRejects(
+      () =>
+        withRetry(() => {
+          calls++
+
+          throw new AppError('resourceNotFound', 'Not found', true, 404)
+        }, { errorHandler: new ErrorHandler() }),
+      AppError,
+    )
+
+    // Assert
+    assertEquals(calls, 1)
+    assertEquals(error.name, 'resourceNotFound')
+  },
+})
+
+Deno.test({
+  name: 'withRetry: retries a plain error by default',
+  async fn() {
+    // Arrange
+    let calls = 0
+    const operation = () => {
+      calls++
+
+      throw new TypeError('fetch failed')
+    }
+
+    // Act
+    const error = await assertRejects(
+      () =>
+        withRetry(operation, {
+          retries: 1,
+          random: () => 0,
+          errorHandler: new ErrorHandler(),
+        }),
+      AppError,
+    )
+
+    // Assert
+    assertEquals(error.name, 'TypeError')
+    assertEquals(error.HttpStatus, 500)
+    assertEquals(calls, 2)
+  },
+})
+
+Deno.test({
+  name: 'withRetry: throws the converted last failure',
+  async fn() {
+    // Arrange
+    let calls = 0
+
+    // Act
+    const error = await assertRejects(
+      () =>
+        withRetry(() => {
+          calls++
+
+          throw { message: 'Bad gateway', status: 502 }
+        }, { retries: 2, random: () => 0, errorHandler: new ErrorHandler() }),
+      AppError,
+    )
+
+    // Assert
+    assertEquals(calls, 3)
+    assertEquals(error.HttpStatus, 502)
+  },
+})
+
+Deno.test({
+  name: 'withRetry: the abort signal stops the retries',
+  async fn() {
+    // Arrange
+    const controller = new AbortController()
+    const reason = new Error('Aborted')
+    let calls = 0
+
+    // Act
+    const retrying = withRetry(() => {
+      calls++
+
+      throw failure(HTTPStatus.ServiceUnavailable)
+    }, {
+      initialDelay: 60_000,
+      jitter: false,
+      signal: controller.signal,
+      errorHandler: new ErrorHandler(),
+    })
+
+    controller.abort(reason)
+
+    const error = await assertRejects(() => retrying)
+
+    // Assert
+    assertStrictEquals(error, reason)
+    assertEquals(calls, 1)
+  },
+})
+
+Deno.test({
+  name: 'CircuitBreaker: opens after the threshold then fails fast',
+  async fn() {
+    // Arrange
+    const handler = new ErrorHandler()
+    const transitions: Array<[CircuitState, CircuitState]> = []
+    const breaker = new CircuitBreaker({
+      name: 'payments',
+      failureThreshold: 2,
+      errorHandler: handler,
+    })
+    let calls = 0
+    const unavailable = () => {
+      calls++
+
+      throw failure(HTTPStatus.ServiceUnavailable)
+    }
+
+    using _subscription = handler.channels.circuitState.subscribe(
+      ({ from, to }) => {
+        transitions.push([from, to])
+      },
+    )
+
+    // Act
+    await assertRejects(() => breaker.execute(unavailable))
+    await assertRejects(() => breaker.execute(unavailable))
+
+    const error = await assertRejects(
+      () => breaker.execute(unavailable),
+      AppError,
+    )
+
+    // Assert
+    assertEquals(calls, 2)
+    assertEquals(error.name, 'circuitOpen')
+    assertEquals(error.HttpStatus, 503)
+    assertEquals(transitions, [['closed', 'open']])
+  },
+})
+
+Deno.test({
+  name: 'CircuitBreaker: a client error never opens the circuit',
+  async fn() {
+    // Arrange
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      errorHandler: new ErrorHandler(),
+    })
+
+    // Act
+    await assertRejects(() =>
+      breaker.execute(() => Promise.reject(failure(HTTPStatus.NotFound)))
+    )
+
+    // Assert
+    assertEquals(breaker.state, 'closed')
+  },
+})
+
+Deno.test({
+  name: 'CircuitBreaker: a plain error opens the circuit',
+  async fn() {
+    // Arrange
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      errorHandler: new ErrorHandler(),
+    })
+
+    // Act
+    await assertRejects(() =>
+      breaker.execute(() => {
+        throw new TypeError('fetch failed')
+      })
+    )
+
+    // Assert
+    assertEquals(breaker.state, 'open')
+  },
+})
+
+Deno.test({
+  name: 'CircuitBreaker: a client error ends the consecutive failures',
+  async fn() {
+    // Arrange
+    const breaker = new CircuitBreaker({
+      failureThreshold: 2,
+      errorHandler: new ErrorHandler(),
+    })
+    const unavailable = () =>
+      Promise.reject(failure(HTTPStatus.ServiceUnavailable))
+
+    // Act
+    await assertRejects(() => breaker.execute(unavailable))
+    await assertRejects(() =>
+      breaker.execute(() => Promise.reject(failure(HTTPStatus.NotFound)))
+    )
+    await assertRejects(() => breaker.execute(unavailable))
+
+    // Assert
+    assertEquals(breaker.state, 'closed')
+  },
+})
+
+Deno.test({
+  name: 'CircuitBreaker: half-open trial closes or opens again',
+  async fn() {
+    // Arrange
+    let now = 0
+    const handler = new ErrorHandler()
+    const transitions: Array<string> = []
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      resetTimeout: 1000,
+      errorHandler: handler,
+      now: () => now,
+    })
+    const unavailable = () =>
+      Promise.reject(failure(HTTPStatus.ServiceUnavailable))
+
+    using _subscription = handler.channels.circuitState.subscribe(
+      ({ to }) => {
+        transitions.push(to)
+      },
+    )
+
+    // Act
+    await assertRejects(() => breaker.execute(unavailable))
+    now = 1000
+    await assertRejects(() => breaker.execute(unavailable))
+    now = 1500
+
+    const stillOpen = breaker.state
+
+    now = 2000
+
+    const result = await breaker.execute(() => 'OK')
+
+    // Assert
+    assertEquals(stillOpen, 'open')
+    assertEquals(result, 'OK')
+    assertEquals(transitions, [
+      'open',
+      'half-open',
+      'open',
+      'half-open',
+      'closed',
+    ])
+  },
+})
+
+Deno.test({
+  name: 'CircuitBreaker: a single trial call while half-open',
+  async fn() {
+    // Arrange
+    let now = 0
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      resetTimeout: 1000,
+      errorHandler: new ErrorHandler(),
+      now: () => now,
+    })
+    let release = () => {}
+
+    await assertRejects(() =>
+      breaker.execute(() =>
+        Promise.reject(failure(HTTPStatus.ServiceUnavailable))
+      )
+    )
+    now = 1000
+
+    // Act
+    const trial = breaker.execute(
+      () => new Promise<string>((resolve) => release = () => resolve('OK')),
+    )
+    const concurrent = await assertRejects(
+      () => breaker.execute(() => 'concurrent'),
+      AppError,
+    )
+
+    release()
+
+    // Assert
+    assertEquals(concurrent.name, 'circuitOpen')
+    assertEquals(await trial, 'OK')
+    assertEquals(breaker.state, 'closed')
+  },
+})
+
+Deno.test({
+  name: 'CircuitBreaker: a call started while closed never ends the trial',
+  async fn() {
+    // Arrange
+    let now = 0
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      resetTimeout: 1000,
+      errorHandler: new ErrorHandler(),
+      now: () => now,
+    })
+    let releaseStale = () => {}
+    let releaseTrial = () => {}
+
+    const stale = breaker.execute(
+      () =>
+        new Promise<string>((resolve) => releaseStale = () => resolve('OK')),
+    )
+
+    await assertRejects(() =>
+      breaker.execute(() =>
+        Promise.reject(failure(HTTPStatus.ServiceUnavailable))
+      )
+    )
+    now = 1000
+
+    // Act
+    const trial = breaker.execute(
+      () =>
+        new Promise<string>((resolve) => releaseTrial = () => resolve('OK')),
+    )
+
+    releaseStale()
+    await stale
+
+    const stateAfterStale = breaker.state
+    const concurrent = await assertRejects(
+      () => breaker.execute(() => 'concurrent'),
+      AppError,
+    )
+
+    releaseTrial()
+    await trial
+
+    // Assert
+    assertEquals(stateAfterStale, 'half-open')
+    assertEquals(concurrent.name, 'circuitOpen')
+    assertEquals(breaker.state, 'closed')
+  },
+})
@@ -0,0 +1,340 @@
+import { HTTPStatus } from '@oneday/http-status'
+import { AppError } from './app-error.ts'
+import type { CircuitState } from './channels.ts'
+import { type ErrorHandler, errorHandler } from './error-handler.ts'
+
+// Transient failures: too many requests and the unavailable upstreams
+const retryableStatuses: ReadonlyArray<number> = [
+  HTTPStatus.TooManyRequests,
+  HTTPStatus.BadGateway,
+  HTTPStatus.ServiceUnavailable,
+  HTTPStatus.GatewayTimeout,
+]
+
+/**
+ * Whether a failure is transient: 429, 502, 503 and 504 are retried, the other 4xx and a 500 never are
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert';
+ * import { AppError, isRetryable } from 'jsr:@oneday/error-handling';
+ * import { HTTPStatus } from 'jsr:@oneday/http-status';
+ *
+ * assertEquals(isRetryable(new AppError('unavailable', 'Service unavailable', true, HTTPStatus.ServiceUnavailable)), true);
+ * assertEquals(isRetryable(new AppError('resourceNotFound', 'User 2 not found', true, HTTPStatus.NotFound)), false);
+ * ```
+ */
+export function isRetryable(appError: Readonly<AppError>): boolean {
+  return retryableStatuses.includes(appError.HttpStatus)
+}
+
+/**
+ * Whether a failure comes from an unavailable dependency: a transient status or a plain thrown error,
+ * e.g. the `TypeError` of a fetch or `ECONNREFUSED`, converted to a non-operational 500.
+ * The default decision of `withRetry` and `CircuitBreaker`.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert';
+ * import { AppError, errorHandler, isTransientFailure } from 'jsr:@oneday/error-handling';
+ * import { HTTPStatus } from 'jsr:@oneday/http-status';
+ *
+ * assertEquals(isTransientFailure(errorHandler.convertUnknownToAppError(new TypeError('fetch failed'))), true);
+ * assertEquals(isTransientFailure(new AppError('resourceNotFound', 'User 2 not found', true, HTTPStatus.NotFound)), false);
+ * ```
+ */
+export function isTransientFailure(appError: Readonly<AppError>): boolean {
+  return isRetryable(appError) ||
+    (!appError.isOperational &&
+      appError.HttpStatus === HTTPStatus.InternalServerError)
+}
+
+/**
+ * Options of `withRetry`
+ */
+export type RetryOptions = {
+  /** retries after the first attempt, 3 by default */
+  retries?: number
+  /** delay before the first retry in milliseconds, 100 by default */
+  initialDelay?: number
+  /** maximum delay between two attempts in milliseconds, 10000 by default */
+  maxDelay?: number
+  /** multiplier of the delay after each retry, 2 by default */
+  factor?: number
+  /** random delay between 0 and the exponential delay (full jitter), true by default */
+  jitter?: boolean
+  /** abort the retries, the pending delay rejects with the reason of the signal */
+  signal?: AbortSignal
+  /** retry decision on the converted failure, `isTransientFailure` by default like the failures of `CircuitBreaker` */
+  shouldRetry?: (appError: AppError, attempt: number) => boolean
+  /** handler converting the failures and publishing the attempts on its `retry` channel, `errorHandler` by default */
+  errorHandler?: ErrorHandler
+  /** random number between 0 and 1, `Math.random` by default */
+  random?: () => number
+}
+
+// Resolve after the delay, reject with the reason of the signal once aborted
+function sleep(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, delay)
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Call an operation until it succeeds, retrying the transient failures with an exponential backoff.
+ * Each failure is converted to an AppError, the last one is thrown once the retries are exhausted or the failure is not retryable.
+ *
+ * The transient statuses and a plain thrown error, e.g. the `TypeError` of a fetch or `ECONNREFUSED`, are retried by default,
+ * an operational failure like a 404 is thrown at once.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from 'jsr:@std/assert';
+ * import { AppError, withRetry } from 'jsr:@oneday/error-handling';
+ * import { HTTPStatus } from 'jsr:@oneday/http-status';
+ *
+ * const result = await withRetry((attempt) => {
+ *   if (attempt < 3) {
+ *     throw new AppError('unavailable', 'Service unavailable', true, HTTPStatus.ServiceUnavailable);
+ *   }
+ *
+ *   return 'OK';
+ * }, { initialDelay: 1 });
+ *
+ * assertEquals(result, 'OK');
+ * ```
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => T | Promise<T>,
+  options: Readonly<RetryOptions> = {},
+): Promise<T> {
+  const {
+    retries = 3,
+    initialDelay = 100,
+    maxDelay = 10_000,
+    factor = 2,
+    jitter = true,
+    signal,
+    shouldRetry = isTransientFailure,
+    errorHandler: handler = errorHandler,
+    random = Math.random,
+  } = options
+
+  for (let attempt = 1;; attempt++) {
+    signal?.throwIfAborted()
+
+    try {
+      return await operation(attempt)
+    } catch (error) {
+      const appError = handler.convertUnknownToAppError(error)
+
+      if (attempt > retries || !shouldRetry(appError, attempt)) {
+        handler.channels.retry.publish({ attempt, appError, delay: undefined })
+
+        throw appError
+      }
+
+      const backoff = Math.min(maxDelay, initialDelay * factor ** (attempt - 1))
+      const delay = jitter ? Math.round(random() * backoff) : backoff
+
+      handler.channels.retry.publish({ attempt, appError, delay })
+
+      await sleep(delay, signal)
+    }
+  }
+}
+
+/**
+ * Options of `CircuitBreaker`
+ */
+export type CircuitBreakerOptions = {
+  /** name published with the state changes, `circuit` by default */
+  name?: string
+  /** consecutive failures opening the circuit, 5 by default */
+  failureThreshold?: number
+  /** duration of the open state in milliseconds before a trial call, 30000 by default */
+  resetTimeout?: number
+  /** failures counted to open the circuit, `isTransientFailure` by default like the retries of `withRetry`: a 4xx never opens it */
+  isFailure?: (appError: AppError) => boolean
+  /** handler converting the failures and publishing the state changes on its `circuitState` channel, `errorHandler` by default */
+  errorHandler?: ErrorHandler
+  /** current time in milliseconds, `Date.now` by default */
+  now?: () => number
+}
+
+/**
+ * Circuit breaker of an unreliable dependency. After `failureThreshold` consecutive failures the circuit opens
+ * and the calls fail fast with a `circuitOpen` AppError (503); once `resetTimeout` has elapsed, a single trial call closes it again on success.
+ * A call started before the circuit opened never changes its state.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals, assertRejects } from 'jsr:@std/assert';
+ * import { AppError, CircuitBreaker } from 'jsr:@oneday/error-handling';
+ * import { HTTPStatus } from 'jsr:@oneday/http-status';
+ *
+ * const breaker = new CircuitBreaker({ name: 'payments', failureThreshold: 1 });
+ * const unavailable = () => {
+ *   throw new AppError('unavailable', 'Service unavailable', true, HTTPStatus.ServiceUnavailable);
+ * };
+ *
+ * await assertRejects(() => breaker.execute(unavailable));
+ *
+ * assertEquals(breaker.state, 'open');
+ * ```
+ */
+export class CircuitBreaker {
+  #name: string
+  #failureThreshold: number
+  #resetTimeout: number
+  #isFailure: (appError: AppError) => boolean
+  #handler: ErrorHandler
+  #now: () => number
+  #state: CircuitState = 'closed'
+  #failures = 0
+  #openedAt = 0
+  #trial = false
+
+  constructor(options: Readonly<CircuitBreakerOptions> = {}) {
+    const {
+      name = 'circuit',
+      failureThreshold = 5,
+      resetTimeout = 30_000,
+      isFailure = isTransientFailure,
+      errorHandler: handler = errorHandler,
+      now = Date.now,
+    } = options
+
+    this.#name = name
+    this.#failureThreshold = failureThreshold
+    this.#resetTimeout = resetTimeout
+    this.#isFailure = isFailure
+    this.#handler = handler
+    this.#now = now
+  }
+
+  /**
+   * Current state, an open circuit whose reset timeout has elapsed is half-open
+   */
+  get state(): CircuitState {
+    if (
+      this.#state === 'open' &&
+      this.#now() - this.#openedAt >= this.#resetTimeout
+    ) {
+      this.#transition('half-open')
+    }
+
+    return this.#state
+  }
+
+  /**
+   * Call the operation through the circuit, a failure is converted to an AppError and thrown
+   */
+  async execute<T>(operation: () => T | Promise<T>): Promise<T> {
+    const state = this.state
+    const isTrial = state === 'half-open'
+
+    if (state === 'open' || (isTrial && this.#trial)) {
+      throw new AppError(
+        'circuitOpen',
+        `Circuit ${this.#name} is open`,
+        true,
+        HTTPStatus.ServiceUnavailable,
+      )
+    }
+
+    if (isTrial) {
+      this.#trial = true
+    }
+
+    // Only the trial call closes or opens again a circuit which is not closed
+    try {
+      const result = await operation()
+
+      this.#failures = 0
+
+      if (isTrial) {
+        this.#transition('closed')
+      }
+
+      return result
+    } catch (error) {
+      const appError = this.#handler.convertUnknownToAppError(error)
+
+      if (this.#isFailure(appError)) {
+        this.#failures++
+
+        if (
+          isTrial ||
+          (this.#state === 'closed' &&
+            this.#failures >= this.#failureThreshold)
+        ) {
+          this.#open(appError)
+        }
+      } else {
+        // The dependency answered, e.g. a 404, the failures are no longer consecutive
+        this.#failures = 0
+
+        if (isTrial) {
+          this.#transition('closed')
+        }
+      }
+
+      throw appError
+    } finally {
+      if (isTrial) {
+        this.#trial = false
+      }
+    }
+  }
+
+  /**
+   * Close the circuit and forget the failures
+   */
+  reset() {
+    this.#failures = 0
+
+    if (this.#state !== 'closed') {
+      this.#transition('closed')
+    }
+  }
+
+  #open(appError: AppError) {
+    this.#openedAt = this.#now()
+
+    if (this.#state !== 'open') {
+      this.#transition('open', appError)
+    }
+  }
+
+  #transition(to: CircuitState, appError?: AppError) {
+    const from = this.#state
+
+    this.#state = to
+    this.#handler.channels.circuitState.publish({
+      name: this.#name,
+      from,
+      to,
+      ...(appError === undefined ? {} : { appError }),
+    })
+  }
+}